@@ -7,7 +7,9 @@ import {
 import { RoomManager } from "../services/RoomManager.js";
 import { GameTimer } from "../services/GameTimer.js";
 import { RedisService } from "../services/RedisService.js";
-import { GameSettings } from "../types/game.js";
+import { BOT_BEHAVIOURS } from "../services/BotBehaviour.js";
+import { BotBehaviourName, GameSettings, GameSettingsUpdate, NightActionType } from "../types/game.js";
+import { areTeammates, getRoleDefinition } from "../models/roles.js";
 import { v4 as uuidv4 } from "uuid";
 import { t, type Language } from "../i18n/index.js";
 
@@ -139,9 +141,35 @@ export function setupSocketHandlers(
           individualVotingDuration: parseInt(
             process.env.INDIVIDUAL_VOTING_DURATION || "15"
           ),
-          mafiaCount: 2,
+          extraTimeTokens: parseInt(process.env.EXTRA_TIME_TOKENS || "1"),
+          extraTimeDuration: parseInt(process.env.EXTRA_TIME_DURATION || "30"),
+          foulsToSkipSpeech: parseInt(process.env.FOULS_TO_SKIP_SPEECH || "3"),
+          foulsToRemove: parseInt(process.env.FOULS_TO_REMOVE || "4"),
+          outOfTurnChatFoul: false,
+          autoStart: false,
+          autoStartCountdown: parseInt(process.env.AUTO_START_COUNTDOWN || "10"),
+          afkMissedTurns: parseInt(process.env.AFK_MISSED_TURNS || "3"),
+          disconnectGracePeriod: parseInt(process.env.DISCONNECT_GRACE_PERIOD || "120"),
+          durationScaling: {},
+          lastWordsDuration: parseInt(process.env.LAST_WORDS_DURATION || "30"),
+          defenceDuration: parseInt(process.env.DEFENCE_DURATION || "30"),
+          nominationsEnabled: false,
+          singleNomineeRule: "skip",
+          speakerRotation: "clockwise",
+          nightKillPolicy: "random-tie",
+          sequentialNight: false,
+          nightStepDuration: parseInt(process.env.NIGHT_STEP_DURATION || "20"),
+          roleReveal: "role",
+          nightVictimLastWords: true,
+          mafiaCount: parseInt(process.env.MAFIA_COUNT || "1"),
+          hasDon: false,
+          hasManiac: false,
           hasDoctor: true,
           hasSheriff: true,
+          hasBodyguard: false,
+          hasCourtesan: false,
+          doctorSelfHealOnce: true,
+          doctorNoRepeatHeal: true,
           minPlayers: parseInt(process.env.MIN_PLAYERS || "4"),
           maxPlayers: parseInt(process.env.MAX_PLAYERS || "16"),
         };
@@ -252,7 +280,7 @@ export function setupSocketHandlers(
           });
           
           // Send complete game state for reconnection
-          const playersWithStatus = roomResult.getAllPlayersWithConnectionStatus();
+          const playersWithStatus = roomResult.getPlayersView(playerId);
           const discussionState = roomResult.getDiscussionState();
           const chatMessages = roomResult.getChatMessages();
           
@@ -300,25 +328,42 @@ export function setupSocketHandlers(
             }
           }
           
+          // Restore today's nominations
+          if (roomResult.getNominations().length > 0) {
+            socket.emit("discussion:nominations-updated", {
+              nominations: roomResult.getNominations(),
+            });
+          }
+          
+          // Restore tie-break sub-phase of a tied day vote
+          const tieBreakState = roomResult.getTieBreakState();
+          if (roomResult.getPhase() === "voting" && tieBreakState) {
+            const endTime = roomResult.getEndTime()!;
+            if (tieBreakState.stage === "defence" && discussionState?.currentSpeakerId) {
+              socket.emit("voting:defence-speaker", {
+                playerId: discussionState.currentSpeakerId,
+                candidateIds: tieBreakState.candidateIds,
+                endTime,
+              });
+            } else if (tieBreakState.stage === "revote") {
+              socket.emit("voting:revote-started", { candidateIds: tieBreakState.candidateIds, endTime });
+            } else if (tieBreakState.stage === "eliminate-all") {
+              socket.emit("voting:eliminate-all-started", { candidateIds: tieBreakState.candidateIds, endTime });
+              Object.entries(tieBreakState.eliminateAllVotes).forEach(([voterId, eliminate]) => {
+                socket.emit("voting:eliminate-all-vote-received", { voterId, eliminate });
+              });
+            }
+          }
+          
           // Send night actions BEFORE phase change
           // Send night actions if in night phase and player is mafia
-          if (roomResult.getPhase() === "night" && player?.role === "mafia") {
-            const mafiaActions = Array.from(roomResult.getNightActions().entries())
-              .filter(([playerId]) => {
-                const p = roomResult.getPlayer(playerId);
-                return p?.role === "mafia";
-              })
-              .map(([_, targetId]) => targetId);
-            
-            const voteCounts: Record<string, number> = {};
-            mafiaActions.forEach((targetId) => {
-              voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
-            });
+          if (roomResult.getPhase() === "night" && getRoleDefinition(player?.role).teamKill) {
+            const voteCounts = roomResult.getMafiaVoteCounts();
             
             // Check if current player has performed night action
-            const hasPerformedAction = roomResult.getNightActions().has(playerId);
+            const hasPerformedAction = roomResult.hasNightAction(playerId, "kill");
             
-            socket.emit("action:night-action-received" as any, {
+            socket.emit("action:night-action-received", {
               actorId: hasPerformedAction ? playerId : "",
               targetId: "",
               voteCounts,
@@ -330,15 +375,37 @@ export function setupSocketHandlers(
             phase: roomResult.getPhase(),
             round: roomResult.getRound(),
             endTime: roomResult.getEndTime()!,
+            lastWordsPlayerId: roomResult.getLastWordsState()?.speakerId,
+            nightStep: roomResult.getNightStep() ?? undefined,
           });
+          if (roomResult.getPhase() === "night" && roomResult.getNightActorIds().includes(playerId)) {
+            socket.emit("night:your-turn", {
+              step: roomResult.getNightStep() ?? undefined,
+              actions: roomResult.getNightActionPrompts(playerId),
+              endTime: roomResult.getEndTime()!,
+            });
+          }
+          if (roomResult.isPaused()) {
+            socket.emit("game:timer-updated", {
+              endTime: roomResult.getEndTime(),
+              pausedRemaining: roomResult.getPausedRemaining(),
+            });
+          }
           
           // Send role if assigned
           if (player?.role) {
             socket.emit("game:role-assigned", player.role);
           }
           
-          // Send night result if we're in discussion phase after night
-          if (roomResult.getPhase() === "discussion" && roomResult.getRound() > 1) {
+          // Replay this player's own night results (sheriff checks, heals)
+          const privateNightResults = roomResult.getPrivateNightResults(playerId);
+          if (privateNightResults.length > 0) {
+            socket.emit("night:private-history", privateNightResults);
+          }
+          
+          // Replay the morning summary during the morning and the discussion after a night
+          const phaseAfterNight = roomResult.getPhase() === "day" || roomResult.getPhase() === "discussion";
+          if (phaseAfterNight && roomResult.getRound() > 1) {
             // Get last night result from room if available
             const lastNightResult = roomResult.getLastNightResult();
             if (lastNightResult) {
@@ -359,16 +426,14 @@ export function setupSocketHandlers(
           });
           
           // Also send updated players list to all players
-          io.to(roomResult.getCode()).emit("game:players-updated", {
-            players: playersWithStatus,
-          });
+          gameTimer.emitPlayersUpdated(roomResult);
           
           // Save room state after reconnection
           await redisService.saveRoom(roomResult, 86400);
         } else {
           socket.emit("room:joined", {
             roomCode: roomResult.getCode(),
-            players: roomResult.getAllPlayers(),
+            players: roomResult.getPlayersView(playerId),
             settings: roomSettings,
             createdAt: roomResult.getCreatedAt(),
           });
@@ -377,6 +442,8 @@ export function setupSocketHandlers(
         // Notify other players in the room (only if not reconnecting)
         if (!isReconnecting) {
           socket.to(normalizedCode).emit("room:player-joined", roomResult.getPlayer(playerId)!);
+          // A newcomer is not ready yet
+          gameTimer.updateAutoStart(roomResult);
         }
 
         // Notify about host change if needed
@@ -401,9 +468,15 @@ export function setupSocketHandlers(
         // Remove player-room mapping from Redis to prevent auto-reconnection
         await redisService.removePlayerRoom(leavingPlayerId);
         
-        const room = await roomManager.leaveRoom(leavingPlayerId);
-        if (room) {
+        const left = await roomManager.leaveRoom(leavingPlayerId);
+        if (left) {
+          const { room, deleted } = left;
           socket.leave(room.getCode());
+          // Only bots were left: stop the room's timer and countdown so they don't play on alone
+          if (deleted) {
+            gameTimer.cleanup(room.getCode());
+            return;
+          }
           
           // Notify other players with player name
           if (leavingPlayer) {
@@ -417,6 +490,7 @@ export function setupSocketHandlers(
           if (newHost) {
             io.to(room.getCode()).emit("room:host-changed", room.getHostId());
           }
+          gameTimer.updateAutoStart(room);
         }
       }
     });
@@ -432,6 +506,128 @@ export function setupSocketHandlers(
       await roomManager.deleteRoom(playerInfo.room.getCode());
     });
 
+    // Room: Update Settings - host changes role composition in the lobby
+    socket.on("room:update-settings", async (update: GameSettingsUpdate) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      const player = room.getPlayer(playerId);
+      if (!player?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlySettings"));
+        return;
+      }
+
+      if (!update || typeof update !== "object") {
+        socket.emit("error", t(playerLang, "errorInvalidSettings"));
+        return;
+      }
+
+      const error = room.updateSettings(update);
+      if (error) {
+        socket.emit("error", t(playerLang, error));
+        return;
+      }
+
+      io.to(room.getCode()).emit("room:settings-updated", room.getSettings());
+      gameTimer.updateAutoStart(room);
+      await redisService.saveRoom(room, 300);
+    });
+
+    // Room: Ready - player toggles their lobby ready-check
+    socket.on("room:ready", async (isReady: boolean) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      const readyError = room.setReady(playerId, isReady === true);
+      if (readyError) {
+        socket.emit("error", t(playerLang, readyError));
+        return;
+      }
+
+      gameTimer.emitPlayersUpdated(room);
+      gameTimer.updateAutoStart(room);
+      await redisService.saveRoom(room, 300);
+    });
+
+    // Room: Add Bot - host fills an empty seat with a server-side bot
+    socket.on("room:add-bot", async (behaviour?: BotBehaviourName) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      if (!room.getPlayer(playerId)?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlyBots"));
+        return;
+      }
+      if (room.getPhase() !== "lobby") {
+        socket.emit("error", t(playerLang, "errorInvalidPhase"));
+        return;
+      }
+      if (room.getAllPlayers().length >= room.getSettings().maxPlayers) {
+        socket.emit("error", t(playerLang, "errorRoomFull"));
+        return;
+      }
+      const botBehaviour = behaviour ?? "random";
+      if (!Object.keys(BOT_BEHAVIOURS).includes(botBehaviour)) {
+        socket.emit("error", t(playerLang, "errorInvalidSettings"));
+        return;
+      }
+
+      // Bots never get a socket; GameTimer plays their turns
+      const takenNames = new Set(room.getAllPlayers().map((p) => p.name));
+      let botNumber = 1;
+      while (takenNames.has(`Bot ${botNumber}`)) botNumber++;
+      const bot = room.addPlayer(uuidv4(), `Bot ${botNumber}`, false, botBehaviour);
+
+      io.to(room.getCode()).emit("room:player-joined", bot);
+      gameTimer.updateAutoStart(room);
+      await redisService.saveRoom(room, 300);
+    });
+
+    // Room: Remove Bot - host frees a bot's seat in the lobby
+    socket.on("room:remove-bot", async (botId: string) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      if (!room.getPlayer(playerId)?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlyBots"));
+        return;
+      }
+      if (room.getPhase() !== "lobby") {
+        socket.emit("error", t(playerLang, "errorInvalidPhase"));
+        return;
+      }
+      const bot = room.getPlayer(botId);
+      if (!bot?.bot) {
+        socket.emit("error", t(playerLang, "errorInvalidTarget"));
+        return;
+      }
+
+      room.removePlayer(botId);
+      io.to(room.getCode()).emit("room:player-left", { playerId: botId, playerName: bot.name });
+      gameTimer.updateAutoStart(room);
+      await redisService.saveRoom(room, 300);
+    });
+
     // Game: Start
     socket.on("game:start", async () => {
       const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
@@ -449,48 +645,17 @@ export function setupSocketHandlers(
       }
 
       try {
-        room.startGame();
-        const players = room.getAllPlayers();
-
-        // Send roles to each player with connection status
-        const playersWithStatus = room.getAllPlayersWithConnectionStatus();
-        players.forEach((p) => {
-          const socketId = room.getSocketId(p.id);
-          if (socketId) {
-            const playerSocket = io.sockets.sockets.get(socketId);
-            if (playerSocket) {
-              playerSocket.emit("game:role-assigned", p.role!);
-              playerSocket.emit("game:started", { players: playersWithStatus });
-            }
-          }
-        });
-
-        // Game starts with discussion phase, emit discussion:started
-        const discussionState = room.getDiscussionState();
-        if (discussionState) {
-          io.to(room.getCode()).emit("discussion:started", discussionState);
+        const setupError = await gameTimer.startGame(room);
+        if (setupError) {
+          socket.emit("error", t(playerLang, setupError));
         }
-
-        // Notify phase change
-        io.to(room.getCode()).emit("game:phase-changed", {
-          phase: room.getPhase(),
-          round: room.getRound(),
-          endTime: room.getEndTime()!,
-        });
-
-        // Start game timer
-        gameTimer.startTimer(room);
-        
-        // When game starts, save state to Redis with extended TTL
-        // Set to 24 hours (86400 seconds) to keep room alive during the game
-        await redisService.saveRoom(room, 86400);
       } catch (error) {
         socket.emit("error", error instanceof Error ? error.message : t(playerLang, "errorHostOnly"));
       }
     });
 
     // Action: Night Action
-    socket.on("action:night-action", async (targetId: string) => {
+    socket.on("action:night-action", async (targetId: string, requestedAction?: NightActionType) => {
       const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
       const playerLang = socketLang.get(socket.id) ?? "uz";
       if (!playerInfo || !playerInfo.room) {
@@ -499,301 +664,258 @@ export function setupSocketHandlers(
       }
       
       const { playerId, room } = playerInfo;
-      if (room.getPhase() !== "night") {
-        socket.emit("error", t(playerLang, "errorInvalidPhase"));
+      // Roles with several night actions (the Don) say which one they are making
+      const action = requestedAction ?? room.getDefaultNightAction(playerId);
+      const violation = room.validateAction(playerId, { type: "night-action", targetId, action });
+      if (violation || !action) {
+        socket.emit("error", t(playerLang, violation ?? "errorNoNightAction"));
         return;
       }
 
-      const player = room.getPlayer(playerId);
-      if (!player?.isAlive) {
-        socket.emit("error", t(playerLang, "errorDeadCannotAct"));
+      // Records the action, shows the mafia their votes and saves the room
+      await gameTimer.handleNightAction(room, playerId, targetId, action);
+    });
+
+    // Action: Vote
+    socket.on("action:vote", async (targetId: string) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+      
+      const { playerId, room } = playerInfo;
+      const violation = room.validateAction(playerId, { type: "vote", targetId });
+      if (violation) {
+        socket.emit("error", t(playerLang, violation));
         return;
       }
 
-      room.setNightAction(playerId, targetId);
+      room.vote(playerId, targetId);
 
-      // Notify all players about night action (only mafia can see mafia votes)
-      if (player.role === "mafia") {
-        // Get all mafia night actions to show vote count
-        const mafiaActions = Array.from(room.getNightActions().entries())
-          .filter(([playerId]) => {
-            const p = room.getPlayer(playerId);
-            return p?.role === "mafia";
-          })
-          .map(([_, targetId]) => targetId);
-        
-        const voteCounts: Record<string, number> = {};
-        mafiaActions.forEach((targetId) => {
-          voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
-        });
+      // Announce the vote and move on to the next voter (or count the votes)
+      await gameTimer.handleVoteCast(room, playerId, targetId);
+    });
 
-        // Emit to all mafia players only
-        const mafiaPlayers = room.getAllPlayers().filter((p) => p.role === "mafia");
-        mafiaPlayers.forEach((mafiaPlayer) => {
-          const mafiaSocketId = room.getSocketId(mafiaPlayer.id);
-          if (mafiaSocketId) {
-            const mafiaSocket = io.sockets.sockets.get(mafiaSocketId);
-            if (mafiaSocket) {
-              mafiaSocket.emit("action:night-action-received" as any, {
-                actorId: playerId,
-                targetId,
-                voteCounts,
-              });
-            }
-          }
-        });
+    // Action: Nominate - current speaker puts a suspect up for the day vote
+    socket.on("action:nominate", async (targetId: string) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      const violation = room.validateAction(playerId, { type: "nominate", targetId });
+      if (violation) {
+        socket.emit("error", t(playerLang, violation));
+        return;
       }
 
-      // Save room state to Redis after night action
+      room.nominate(playerId, targetId);
+      io.to(room.getCode()).emit("discussion:nominations-updated", {
+        nominations: room.getNominations(),
+      });
+
       await redisService.saveRoom(room, 86400);
+    });
 
-      // Process night if all have acted (simplified - in real game, use timers)
-      // This would typically be handled by a timer
+    // Game: Pause / Resume / Skip Phase / Extend - host controls the phase clock
+    socket.on("game:pause", async () => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      if (!room.getPlayer(playerId)?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlyControl"));
+        return;
+      }
+      const pauseError = room.pause();
+      if (pauseError) {
+        socket.emit("error", t(playerLang, pauseError));
+        return;
+      }
+
+      await gameTimer.announceTimerChange(room, "gamePaused");
     });
 
-    // Action: Vote
-    socket.on("action:vote", async (targetId: string) => {
+    socket.on("game:resume", async () => {
       const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
       const playerLang = socketLang.get(socket.id) ?? "uz";
       if (!playerInfo || !playerInfo.room) {
         socket.emit("error", t(playerLang, "errorRoomRequired"));
         return;
       }
-      
+
       const { playerId, room } = playerInfo;
-      if (room.getPhase() !== "voting") {
-        socket.emit("error", t(playerLang, "errorInvalidPhase"));
+      if (!room.getPlayer(playerId)?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlyControl"));
+        return;
+      }
+      const resumeError = room.resume();
+      if (resumeError) {
+        socket.emit("error", t(playerLang, resumeError));
         return;
       }
 
-      const player = room.getPlayer(playerId);
-      if (!player?.isAlive) {
-        socket.emit("error", t(playerLang, "errorDeadCannotVote"));
+      await gameTimer.announceTimerChange(room, "gameResumed");
+    });
+
+    socket.on("game:skip-phase", async () => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
         return;
       }
 
-      // Check if it's individual voting phase and if it's current player's turn
-      const discussionState = room.getDiscussionState();
-      if (discussionState?.isIndividualPhase) {
-        if (discussionState.currentSpeakerId !== playerId) {
-          socket.emit("error", t(playerLang, "errorNotYourTurn"));
-          return;
-        }
+      const { playerId, room } = playerInfo;
+      if (!room.getPlayer(playerId)?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlyControl"));
+        return;
+      }
+      if (room.getPhase() === "lobby" || room.isGameOver()) {
+        socket.emit("error", t(playerLang, "errorInvalidPhase"));
+        return;
+      }
+      if (room.isPaused()) {
+        socket.emit("error", t(playerLang, "errorGamePaused"));
+        return;
       }
 
-      try {
-        room.vote(playerId, targetId);
-      } catch (error) {
-        socket.emit("error", error instanceof Error ? error.message : t(playerLang, "errorVoting"));
+      gameTimer.skipPhase(room);
+    });
+
+    socket.on("game:extend", async (seconds?: number) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
         return;
       }
 
-      // Notify all players
-      io.to(room.getCode()).emit("action:vote-received", {
-        voterId: playerId,
-        targetId,
-      });
+      const { playerId, room } = playerInfo;
+      if (!room.getPlayer(playerId)?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlyControl"));
+        return;
+      }
+      const extraSeconds = seconds ?? 30;
+      if (!Number.isInteger(extraSeconds) || extraSeconds <= 0 || extraSeconds > 600) {
+        socket.emit("error", t(playerLang, "errorInvalidSettings"));
+        return;
+      }
+      const extendError = room.extendPhase(extraSeconds);
+      if (extendError) {
+        socket.emit("error", t(playerLang, extendError));
+        return;
+      }
 
-      // Add chat message
-        const targetPlayer = room.getPlayer(targetId);
-        if (targetPlayer) {
-          const alivePlayers = room.getAlivePlayers();
-          const voterIndex = alivePlayers.findIndex((p) => p.id === playerId) + 1;
-          const targetIndex = alivePlayers.findIndex((p) => p.id === targetId) + 1;
-          const messageText = t(playerLang, "votedAgainstFull", player.name, voterIndex, targetPlayer.name, targetIndex);
-          room.addChatMessage(
-            "system",
-            "Система",
-            messageText,
-            true
-          );
-          io.to(room.getCode()).emit("chat:message", {
-            id: uuidv4(),
-            senderId: "system",
-            senderName: t(playerLang, "system"),
-            text: messageText,
-            timestamp: Date.now(),
-            isSystem: true,
-            translationKey: "votedAgainstFull",
-            translationParams: [player.name, voterIndex, targetPlayer.name, targetIndex],
-          });
-        }
+      await gameTimer.announceTimerChange(room);
+    });
 
-      // If it's individual voting phase, move to next voter immediately after vote
-      // Reuse discussionState from above (line 559)
-      if (discussionState?.isIndividualPhase && discussionState.currentSpeakerId === playerId) {
-        const hasNext = room.nextVoter();
-        if (hasNext) {
-          const newState = room.getDiscussionState();
-          if (newState && newState.currentSpeakerId) {
-            // Move to next voter
-            io.to(room.getCode()).emit("discussion:speaker-changed", {
-              currentSpeakerId: newState.currentSpeakerId,
-              currentSpeakerIndex: newState.currentSpeakerIndex,
-              endTime: room.getEndTime()!,
-            });
-            // Restart timer for next voter
-            gameTimer.startTimer(room);
-          } else {
-            // Edge case: hasNext but no valid next state — stop timer and process
-            gameTimer.stopTimer(room.getCode());
-            // No more voters, process voting
-            const result = room.processVoting();
-            io.to(room.getCode()).emit("action:vote-result", {
-              eliminatedId: result.eliminatedId,
-              votes: result.votes,
-              isTie: result.isTie,
-            });
+    // Game: Foul - host penalises a player
+    socket.on("game:foul", async (targetId: string) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
 
-            if (result.eliminatedId) {
-              const eliminatedPlayer = room.getPlayer(result.eliminatedId);
-              io.to(room.getCode()).emit("game:player-eliminated", {
-                playerId: result.eliminatedId,
-                role: eliminatedPlayer?.role,
-              });
-            }
+      const { playerId, room } = playerInfo;
+      if (!room.getPlayer(playerId)?.isHost) {
+        socket.emit("error", t(playerLang, "errorHostOnlyFoul"));
+        return;
+      }
+      const foulError = room.getFoulError(targetId);
+      if (foulError) {
+        socket.emit("error", t(playerLang, foulError));
+        return;
+      }
 
-            // Check for game end
-            const winner = room.checkGameEnd();
-            if (winner) {
-              // Store last voting result before ending game
-              room.setLastVotingResult({
-                eliminatedId: result.eliminatedId,
-                isTie: result.isTie,
-                votes: result.votes,
-              });
-              // Emit last voting result before game end
-              io.to(room.getCode()).emit("game:last-voting-result", {
-                eliminatedId: result.eliminatedId,
-                isTie: result.isTie,
-                votes: result.votes,
-              });
-              // Wait a bit before ending game to show voting result modal
-              setTimeout(async () => {
-                await gameTimer.endGame(room, winner);
-              }, 5000);
-              return;
-            }
+      await gameTimer.giveFoul(room, targetId);
+    });
 
-            // Send system message about night starting
-            const hostPlayer = room.getPlayer(room.getHostId());
-            const hostLang = hostPlayer ? (socketLang.get(room.getSocketId(hostPlayer.id) ?? "") ?? "uz") : "uz";
-            const nightText = t(hostLang, "nightFalls");
-            const nightMessage: ChatMessage = {
-              id: uuidv4(),
-              senderId: "system",
-              senderName: t(hostLang, "system"),
-              text: nightText,
-              timestamp: Date.now(),
-              isSystem: true,
-              translationKey: "nightFalls",
-              translationParams: [],
-            };
-            room.addChatMessage("system", "Система", nightText, true);
-            io.to(room.getCode()).emit("chat:message", nightMessage);
-
-          // Move to night phase
-          room.startNextNight();
-          // Send updated players with connection status
-          const playersWithStatus = room.getAllPlayersWithConnectionStatus();
-          io.to(room.getCode()).emit("game:players-updated", {
-            players: playersWithStatus,
-          });
-          const nightDiscussionState = room.getDiscussionState();
-          if (nightDiscussionState) {
-            io.to(room.getCode()).emit("discussion:started", nightDiscussionState);
-          }
-          io.to(room.getCode()).emit("game:phase-changed", {
-            phase: room.getPhase(),
-            round: room.getRound(),
-            endTime: room.getEndTime()!,
-          });
-          await redisService.saveRoom(room, 86400);
-          gameTimer.startTimer(room);
-          }
-        } else {
-          // Last player voted — stop timer immediately so we don't wait for remaining time
-          gameTimer.stopTimer(room.getCode());
-          // No more voters, process voting
-          const result = room.processVoting();
-          io.to(room.getCode()).emit("action:vote-result", {
-            eliminatedId: result.eliminatedId,
-            votes: result.votes,
-            isTie: result.isTie,
-          });
+    // Discussion: Pass - current speaker yields the floor
+    socket.on("discussion:pass", async () => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
 
-          if (result.eliminatedId) {
-            const eliminatedPlayer = room.getPlayer(result.eliminatedId);
-            io.to(room.getCode()).emit("game:player-eliminated", {
-              playerId: result.eliminatedId,
-              role: eliminatedPlayer?.role,
-            });
-          }
+      const { playerId, room } = playerInfo;
+      if (room.isPaused()) {
+        socket.emit("error", t(playerLang, "errorGamePaused"));
+        return;
+      }
+      const speakerError = room.passSpeech(playerId);
+      if (speakerError) {
+        socket.emit("error", t(playerLang, speakerError));
+        return;
+      }
 
-          // Check for game end
-          const winner = room.checkGameEnd();
-          if (winner) {
-            // Store last voting result before ending game
-            room.setLastVotingResult({
-              eliminatedId: result.eliminatedId,
-              isTie: result.isTie,
-              votes: result.votes,
-            });
-            // Emit last voting result before game end
-            io.to(room.getCode()).emit("game:last-voting-result", {
-              eliminatedId: result.eliminatedId,
-              isTie: result.isTie,
-              votes: result.votes,
-            });
-            // Wait a bit before ending game to show voting result modal
-            setTimeout(async () => {
-              await gameTimer.endGame(room, winner);
-            }, 5000);
-            return;
-          }
+      // Moves to the next speaker (or general discussion) and emits the updates
+      await gameTimer.endSpeech(room);
+    });
 
-          // Send system message about night starting
-          const hostPlayer = room.getPlayer(room.getHostId());
-          const hostLang = hostPlayer ? (socketLang.get(room.getSocketId(hostPlayer.id) ?? "") ?? "uz") : "uz";
-          const nightText = t(hostLang, "nightMafiaWakes");
-          const nightMessage: ChatMessage = {
-            id: uuidv4(),
-            senderId: "system",
-            senderName: t(hostLang, "system"),
-            text: nightText,
-            timestamp: Date.now(),
-            isSystem: true,
-            translationKey: "nightMafiaWakes",
-            translationParams: [],
-          };
-          room.addChatMessage("system", "Система", nightText, true);
-          io.to(room.getCode()).emit("chat:message", nightMessage);
-
-          // Move to night phase
-          room.startNextNight();
-          // Send updated players with connection status
-          const playersWithStatus = room.getAllPlayersWithConnectionStatus();
-          io.to(room.getCode()).emit("game:players-updated", {
-            players: playersWithStatus,
-          });
-          const nightDiscussionState = room.getDiscussionState();
-          if (nightDiscussionState) {
-            io.to(room.getCode()).emit("discussion:started", nightDiscussionState);
-          }
-          io.to(room.getCode()).emit("game:phase-changed", {
-            phase: room.getPhase(),
-            round: room.getRound(),
-            endTime: room.getEndTime()!,
-          });
-          await redisService.saveRoom(room, 86400);
-          gameTimer.startTimer(room);
-        }
+    // Discussion: Extra Time - current speaker extends their speech once
+    socket.on("discussion:extra-time", async () => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      if (room.isPaused()) {
+        socket.emit("error", t(playerLang, "errorGamePaused"));
+        return;
+      }
+      const extraTimeError = room.useExtraTime(playerId);
+      if (extraTimeError) {
+        socket.emit("error", t(playerLang, extraTimeError));
+        return;
       }
 
-      // Save room state to Redis after vote
+      const discussionState = room.getDiscussionState()!;
+      io.to(room.getCode()).emit("discussion:speaker-changed", {
+        currentSpeakerId: playerId,
+        currentSpeakerIndex: discussionState.currentSpeakerIndex,
+        endTime: room.getEndTime()!,
+      });
       await redisService.saveRoom(room, 86400);
     });
 
+    // Action: Eliminate All Vote - yes/no on removing every player still tied after the revote
+    socket.on("action:eliminate-all-vote", async (eliminate: boolean) => {
+      const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
+      const playerLang = socketLang.get(socket.id) ?? "uz";
+      if (!playerInfo || !playerInfo.room) {
+        socket.emit("error", t(playerLang, "errorRoomRequired"));
+        return;
+      }
+
+      const { playerId, room } = playerInfo;
+      const violation = room.validateAction(playerId, { type: "eliminate-all-vote" });
+      if (violation) {
+        socket.emit("error", t(playerLang, violation));
+        return;
+      }
+
+      room.castEliminateAllVote(playerId, eliminate === true);
+
+      await gameTimer.handleEliminateAllVoteCast(room, playerId, eliminate === true);
+    });
+
     // Chat: Send
     socket.on("chat:send", async (text: string) => {
       const playerInfo = findPlayerIdBySocket(socket.id, roomManager);
@@ -807,18 +929,37 @@ export function setupSocketHandlers(
       const player = room.getPlayer(playerId);
       if (!player) return;
       
-      // Dead players cannot send messages (except after game ended)
-      if (!player.isAlive && room.getPhase() !== "ended") {
+      // During last words only the eliminated player may speak
+      if (room.getPhase() === "last-words") {
+        if (room.getLastWordsState()?.speakerId !== playerId) {
+          socket.emit("error", t(playerLang, "errorLastWordsOnly"));
+          return;
+        }
+      } else if (!player.isAlive && room.getPhase() !== "ended") {
+        // Dead players cannot send messages (except after game ended)
         socket.emit("error", t(playerLang, "errorDeadCannotChat"));
         return;
       }
 
+      // Speaking over someone else's speech earns a foul when the room enables it
+      const discussionState = room.getDiscussionState();
+      if (
+        room.getSettings().outOfTurnChatFoul &&
+        room.getPhase() === "discussion" &&
+        discussionState?.isIndividualPhase &&
+        discussionState.currentSpeakerId !== playerId
+      ) {
+        socket.emit("error", t(playerLang, "errorNotYourSpeech"));
+        await gameTimer.giveFoul(room, playerId);
+        return;
+      }
+
       // Limit message length to prevent crashes (max 500 characters)
       const maxLength = 500;
       const messageText = text.length > maxLength ? text.substring(0, maxLength) : text;
 
       // During night phase, only mafia can send messages, and they should only be visible to mafia
-      if (room.getPhase() === "night" && player.role === "mafia") {
+      if (room.getPhase() === "night" && getRoleDefinition(player.role).knowsTeam) {
         // Send message only to mafia players, don't save to room chat
         const message: ChatMessage = {
           id: uuidv4(),
@@ -829,7 +970,7 @@ export function setupSocketHandlers(
           isSystem: false,
         };
         
-        const mafiaPlayers = room.getAllPlayers().filter((p) => p.role === "mafia");
+        const mafiaPlayers = room.getAllPlayers().filter((p) => areTeammates(player.role, p.role));
         mafiaPlayers.forEach((mafiaPlayer) => {
           const mafiaSocketId = room.getSocketId(mafiaPlayer.id);
           if (mafiaSocketId) {
@@ -897,13 +1038,13 @@ export function setupSocketHandlers(
             playerId: removedPlayerId,
           });
           // Send updated players list with connection status to all players
-          const playersWithStatus = roomBeforeLeave.getAllPlayersWithConnectionStatus();
-          io.to(roomBeforeLeave.getCode()).emit("game:players-updated", {
-            players: playersWithStatus,
-          });
+          gameTimer.emitPlayersUpdated(roomBeforeLeave);
           
           // Save room state to Redis after disconnection
           await redisService.saveRoom(roomBeforeLeave, 86400);
+
+          // Don't make the table wait for someone who is gone
+          gameTimer.skipDisconnectedTurn(roomBeforeLeave, removedPlayerId);
           return;
         }
       }
@@ -911,8 +1052,11 @@ export function setupSocketHandlers(
       if (playerId) {
         socketLang.delete(socket.id);
         const leavingPlayer = roomBeforeLeave?.getPlayer(playerId) || { id: playerId, name: "Player" };
-        const room = await roomManager.leaveRoom(playerId);
-        if (room) {
+        const left = await roomManager.leaveRoom(playerId);
+        if (left?.deleted) {
+          gameTimer.cleanup(left.room.getCode());
+        } else if (left) {
+          const { room } = left;
           socket.to(room.getCode()).emit("room:player-left", {
             playerId: playerId,
             playerName: leavingPlayer.name,
@@ -921,6 +1065,7 @@ export function setupSocketHandlers(
           if (newHost) {
             io.to(room.getCode()).emit("room:host-changed", room.getHostId());
           }
+          gameTimer.updateAutoStart(room);
         }
       }
       updateUserCount(io);
@@ -8,12 +8,40 @@ const uz = {
   errorHostOnly: "Faqat host oʻyinni boshlashi mumkin",
   errorInvalidPhase: "Notoʻgʻri oʻyin bosqichi",
   errorDeadCannotAct: "Oʻlik oʻyinchilar harakat qila olmaydi",
+  errorNoNightAction: "Sizning rolingizda bunday tungi harakat yoʻq",
+  errorNotYourNightStep: "Hozir sizning rolingiz uxlayapti, navbatingizni kuting",
+  errorSelfHealUsed: "Oʻzingizni faqat bir marta davolashingiz mumkin",
+  errorHealSameTwice: "Bir oʻyinchini ketma-ket ikki kecha davolab boʻlmaydi",
+  errorCannotTargetSelf: "Oʻzingizni tanlay olmaysiz",
   errorDeadCannotVote: "Oʻlik oʻyinchilar ovoz bera olmaydi",
   errorNotYourTurn: "Sizning navbatingiz emas",
+  errorAlreadyVoted: "Siz allaqachon ovoz bergansiz",
   errorVoting: "Ovoz berishda xato",
+  errorNotACandidate: "Bu oʻyinchiga qarshi ovoz berib boʻlmaydi",
+  errorNominationsDisabled: "Bu xonada nomzod koʻrsatish oʻchirilgan",
+  errorNotYourSpeech: "Hozir sizning nutqingiz emas",
+  errorNoExtraTime: "Qoʻshimcha vaqtingiz qolmadi",
+  errorExtraTimeUsed: "Bu nutqda qoʻshimcha vaqt allaqachon olingan",
+  errorAlreadyNominated: "Siz allaqachon nomzod koʻrsatdingiz",
+  errorAlreadyNominee: "Bu oʻyinchi allaqachon nomzod",
+  errorInvalidTarget: "Notoʻgʻri nishon",
   errorDeadCannotChat: "Oʻlik oʻyinchilar chatda yozolmaydi",
+  errorLastWordsOnly: "Hozir faqat chiqarilgan oʻyinchi soʻzlay oladi",
   roomCodeAndNameRequired: "Xona kodi va ism talab qilinadi",
   roomNotFound: "Xona topilmadi",
+  errorHostOnlySettings: "Faqat host sozlamalarni oʻzgartirishi mumkin",
+  errorHostOnlyFoul: "Faqat host foul berishi mumkin",
+  errorHostOnlyBots: "Faqat host botlarni qoʻshishi yoki olib tashlashi mumkin",
+  errorRoomFull: "Xona toʻla",
+  errorHostOnlyControl: "Faqat host oʻyinni boshqarishi mumkin",
+  errorGamePaused: "Oʻyin pauzada",
+  errorAlreadyPaused: "Oʻyin allaqachon pauzada",
+  errorNotPaused: "Oʻyin pauzada emas",
+  errorInvalidSettings: "Notoʻgʻri sozlamalar",
+  errorFoulLimits: "Nutqdan mahrum qiluvchi foullar chiqarib yuboruvchi foullardan kam boʻlishi kerak",
+  errorMafiaCountInvalid: "Mafiyalar soni kamida bitta boʻlishi kerak",
+  errorTooManyMafia: "Mafiyalar stolning yarmidan kam boʻlishi kerak",
+  errorTooManyRoles: "Rollar oʻyinchilardan koʻp",
 
   // System messages
   playerReconnected: (name: string) => `${name} oʻyinga qayta ulandi`,
@@ -21,6 +49,15 @@ const uz = {
   nightFalls: "Kecha boshlanadi. Shahar uxlayapti...",
   nightMafiaWakes: "Kecha boshlanadi. Mafiya uygʻonmoqda...",
   morningFalls: "Ertalab keldi. Shahar uygʻonmoqda...",
+  nightNobodyKilled: "Bu kecha hech kim halok boʻlmadi",
+  nightPlayerKilled: (name: string) => `Bu kecha ${name} oʻldirildi`,
+  lastWords: (name: string) => `${name} soʻnggi soʻzini aytmoqda`,
+  foulGiven: (name: string, fouls: number) => `${name} foul oldi (${fouls})`,
+  foulLosesSpeech: (name: string) => `${name} fouli uchun keyingi nutqidan mahrum boʻladi`,
+  foulRemoved: (name: string) => `${name} fouli uchun oʻyindan chiqarildi`,
+  playerLeftAfk: (name: string) => `${name} oʻyinni tark etdi`,
+  gamePaused: "Host oʻyinni pauzaga qoʻydi",
+  gameResumed: "Oʻyin davom etmoqda",
   votedAgainstFull: (voter: string, voterIdx: number, target: string, targetIdx: number) =>
     `${voter} (${voterIdx}) ${target} (${targetIdx}) ga qarshi ovoz berdi`,
   system: "Tizim",
@@ -34,12 +71,40 @@ const ru = {
   errorHostOnly: "Только хост может начать игру",
   errorInvalidPhase: "Неверная фаза игры",
   errorDeadCannotAct: "Мертвые игроки не могут действовать",
+  errorNoNightAction: "У вашей роли нет такого ночного действия",
+  errorNotYourNightStep: "Сейчас ваша роль спит, дождитесь своей очереди",
+  errorSelfHealUsed: "Лечить себя можно только один раз за игру",
+  errorHealSameTwice: "Нельзя лечить одного игрока две ночи подряд",
+  errorCannotTargetSelf: "Нельзя выбрать самого себя",
   errorDeadCannotVote: "Мертвые игроки не могут голосовать",
   errorNotYourTurn: "Не ваша очередь голосовать",
+  errorAlreadyVoted: "Вы уже проголосовали",
   errorVoting: "Ошибка при голосовании",
+  errorNotACandidate: "Против этого игрока нельзя голосовать",
+  errorNominationsDisabled: "Выставление кандидатур в этой комнате отключено",
+  errorNotYourSpeech: "Сейчас не ваша речь",
+  errorNoExtraTime: "У вас не осталось дополнительного времени",
+  errorExtraTimeUsed: "Дополнительное время в этой речи уже взято",
+  errorAlreadyNominated: "Вы уже выставили кандидатуру",
+  errorAlreadyNominee: "Этот игрок уже выставлен",
+  errorInvalidTarget: "Неверная цель",
   errorDeadCannotChat: "Мертвые игроки не могут писать в чат",
+  errorLastWordsOnly: "Сейчас может говорить только выбывший игрок",
   roomCodeAndNameRequired: "Код комнаты и имя игрока обязательны",
   roomNotFound: "Комната не найдена",
+  errorHostOnlySettings: "Только хост может менять настройки",
+  errorHostOnlyFoul: "Только хост может выдавать фолы",
+  errorHostOnlyBots: "Только хост может добавлять и убирать ботов",
+  errorRoomFull: "Комната заполнена",
+  errorHostOnlyControl: "Только хост может управлять игрой",
+  errorGamePaused: "Игра на паузе",
+  errorAlreadyPaused: "Игра уже на паузе",
+  errorNotPaused: "Игра не на паузе",
+  errorInvalidSettings: "Неверные настройки",
+  errorFoulLimits: "Фолов для лишения речи должно быть меньше, чем для удаления",
+  errorMafiaCountInvalid: "Мафий должно быть не меньше одной",
+  errorTooManyMafia: "Мафий должно быть меньше половины стола",
+  errorTooManyRoles: "Ролей больше, чем игроков",
 
   // System messages
   playerReconnected: (name: string) => `${name} переподключился к игре`,
@@ -47,6 +112,15 @@ const ru = {
   nightFalls: "Наступает ночь. Город засыпает...",
   nightMafiaWakes: "Наступила ночь. Мафия просыпается...",
   morningFalls: "Наступило утро. Город просыпается...",
+  nightNobodyKilled: "Этой ночью никто не погиб",
+  nightPlayerKilled: (name: string) => `Этой ночью был убит ${name}`,
+  lastWords: (name: string) => `Последнее слово: ${name}`,
+  foulGiven: (name: string, fouls: number) => `${name} получает фол (${fouls})`,
+  foulLosesSpeech: (name: string) => `${name} за фолы лишается следующей речи`,
+  foulRemoved: (name: string) => `${name} удаляется из игры за фолы`,
+  playerLeftAfk: (name: string) => `${name} покинул игру`,
+  gamePaused: "Хост поставил игру на паузу",
+  gameResumed: "Игра продолжается",
   votedAgainstFull: (voter: string, voterIdx: number, target: string, targetIdx: number) =>
     `${voter} (${voterIdx}) проголосовал против ${target} (${targetIdx})`,
   system: "Система",
@@ -54,7 +128,12 @@ const ru = {
 
 const translations = { uz, ru } as const;
 
-export function t(lang: Language, key: keyof typeof uz, ...args: unknown[]): string {
+export type TranslationKey = keyof typeof uz;
+
+/** Reason a rules check rejected a player's action; the socket layer translates it for the player. */
+export type RuleViolation = Extract<TranslationKey, `error${string}`>;
+
+export function t(lang: Language, key: TranslationKey, ...args: unknown[]): string {
   const value = (translations[lang] ?? translations.uz)[key as keyof typeof uz];
   if (typeof value === "function") {
     return (value as (...a: unknown[]) => string)(...args);
@@ -1,6 +1,116 @@
 import { v4 as uuidv4 } from "uuid";
-import { GameRoom, Player, GamePhase, Role, DiscussionState } from "../types/game.js";
-import { GameSettings } from "../types/game.js";
+import {
+  GameRoom,
+  Player,
+  GamePhase,
+  DiscussionState,
+  Faction,
+  GameActionLogEntry,
+  BotBehaviourName,
+  DurationFormula,
+  ScaledDuration,
+  LastWordsState,
+  Nomination,
+  TieBreakState,
+  GameResult,
+  NightActionPrompt,
+  NightActionType,
+  NightResult,
+  NightStep,
+  MafiaMissReason,
+  PlayerAction,
+  RemovalReason,
+  PlayerNightActions,
+  PrivateNightResult,
+} from "../types/game.js";
+import { GameSettings, GameSettingsUpdate } from "../types/game.js";
+import type { RuleViolation, TranslationKey } from "../i18n/index.js";
+import {
+  areTeammates,
+  getEnabledSpecialRoles,
+  getNightActionOrder,
+  getRoleDefinition,
+  getRoleFaction,
+  NIGHT_STEP_ORDER,
+} from "./roles.js";
+
+// Order in which night actions resolve; earlier actions can cancel or redirect later ones
+const NIGHT_ACTION_ORDER = getNightActionOrder();
+
+// On/off settings the host may toggle from the lobby
+const BOOLEAN_SETTINGS = [
+  "hasDon",
+  "hasManiac",
+  "hasDoctor",
+  "hasSheriff",
+  "hasBodyguard",
+  "hasCourtesan",
+  "doctorSelfHealOnce",
+  "doctorNoRepeatHeal",
+  "nightVictimLastWords",
+  "nominationsEnabled",
+  "outOfTurnChatFoul",
+  "autoStart",
+  "sequentialNight",
+] as const;
+
+// Whole-number settings and the range the host may pick from (seconds stay well
+// below setTimeout's 2^31 ms limit)
+const INTEGER_SETTINGS = {
+  extraTimeTokens: { min: 0, max: 10 },
+  foulsToSkipSpeech: { min: 1, max: 10 },
+  foulsToRemove: { min: 1, max: 10 },
+  afkMissedTurns: { min: 0, max: 20 },
+  disconnectGracePeriod: { min: 0, max: 3600 },
+  autoStartCountdown: { min: 1, max: 300 },
+  nightStepDuration: { min: 1, max: 300 },
+} as const satisfies { [K in keyof GameSettingsUpdate]?: { min: number; max?: number } };
+
+// Settings with a fixed set of values the host may pick from
+const ENUM_SETTINGS = {
+  singleNomineeRule: ["skip", "eliminate"],
+  speakerRotation: ["clockwise", "random", "after-victim"],
+  nightKillPolicy: ["plurality", "random-tie", "unanimous", "don-decides"],
+  roleReveal: ["role", "faction", "none"],
+} as const satisfies { [K in keyof GameSettingsUpdate]?: readonly GameSettings[K][] };
+
+function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// Bots draw from their own stream, derived from the room seed, so their throwaway choices
+// never shift the deal, tie-breaks or speaker order that replaying the action log relies on
+function botSeed(seed: number): number {
+  return (seed ^ 0x9e3779b9) | 0;
+}
+
+/** One step of mulberry32: the next number in [0, 1) and the state after it. */
+function mulberry32(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+}
+
+const SCALED_DURATIONS: readonly ScaledDuration[] = [
+  "nightDuration",
+  "discussionDuration",
+  "individualDiscussionDuration",
+  "votingDuration",
+  "individualVotingDuration",
+];
+
+function isValidDurationFormula(formula: DurationFormula): boolean {
+  return (
+    typeof formula === "object" &&
+    formula !== null &&
+    [formula.base, formula.perPlayer, formula.max].every((n) => Number.isInteger(n) && n >= 0) &&
+    formula.base > 0 &&
+    formula.max >= formula.base &&
+    formula.max <= 3600
+  );
+}
 
 export class Room {
   private id: string;
@@ -12,7 +122,13 @@ export class Room {
   private endTime: number | null;
   private settings: GameSettings;
   private discussionState: DiscussionState | null;
-  private nightActions: Map<string, string>; // playerId -> targetId
+  private lastWordsState: LastWordsState | null;
+  private tieBreakState: TieBreakState | null;
+  private nominations: Nomination[];
+  private lastOpenerId: string | null; // opened the most recent day's speeches
+  private lastVictimId: string | null; // most recently killed or eliminated player
+  private extraTimeUsed: Map<string, number>; // playerId -> extra-time tokens spent this game
+  private nightActions: Map<string, PlayerNightActions>; // playerId -> action -> targetId
   private votes: Map<string, string>; // voterId -> targetId
   private chatMessages: Array<{
     id: string;
@@ -25,10 +141,18 @@ export class Room {
   private createdAt: number; // Unix timestamp in milliseconds
   private connectedSockets: Map<string, string>; // playerId -> socketId (to track connections)
   private isEnded: boolean; // true if game has ended
+  private endPending: boolean; // a winner is known; the game ends once the last result has been shown
   private lastVotingResult: { eliminatedId: string | null; isTie: boolean; votes: Record<string, number> } | null; // Last voting result before game end
-  private lastNightResult: { killedId: string | null; savedId: string | null } | null; // Last night result before game end
-
-  constructor(hostId: string, hostName: string, settings: GameSettings) {
+  private lastNightResult: NightResult | null; // Public result of the most recent night
+  private nightStep: NightStep | null; // Role awake right now during a sequential night
+  private privateNightResults: Map<string, PrivateNightResult[]>; // playerId -> own night results, oldest first
+  private pausedRemaining: number | null; // ms left in the phase while paused; null when running
+  private seed: number; // every random choice in the game comes from this seed
+  private rngState: number;
+  private botRngState: number;
+  private actionLog: GameActionLogEntry[];
+
+  constructor(hostId: string, hostName: string, settings: GameSettings, seed: number = randomSeed()) {
     this.id = uuidv4();
     this.code = this.generateRoomCode();
     this.hostId = hostId;
@@ -38,14 +162,28 @@ export class Room {
     this.endTime = null;
     this.settings = settings;
     this.discussionState = null;
+    this.lastWordsState = null;
+    this.tieBreakState = null;
+    this.nominations = [];
+    this.lastOpenerId = null;
+    this.lastVictimId = null;
+    this.extraTimeUsed = new Map();
     this.nightActions = new Map();
     this.votes = new Map();
     this.chatMessages = [];
     this.createdAt = Date.now(); // Set creation timestamp
     this.connectedSockets = new Map();
     this.isEnded = false;
+    this.endPending = false;
     this.lastVotingResult = null;
     this.lastNightResult = null;
+    this.nightStep = null;
+    this.privateNightResults = new Map();
+    this.pausedRemaining = null;
+    this.seed = seed;
+    this.rngState = seed;
+    this.botRngState = botSeed(seed);
+    this.actionLog = [];
 
     // Add host as first player
     this.addPlayer(hostId, hostName, true);
@@ -55,13 +193,60 @@ export class Room {
     return Math.random().toString(36).substring(2, 8).toUpperCase();
   }
 
-  addPlayer(playerId: string, playerName: string, isHost: boolean = false): Player {
+  /** Next number in [0, 1) from the room's seeded PRNG (mulberry32). */
+  private random(): number {
+    const { value, state } = mulberry32(this.rngState);
+    this.rngState = state;
+    return value;
+  }
+
+  /** Random element drawn from the room's PRNG. */
+  private randomPick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  /** Random element for a bot's decision, drawn from the bots' own seeded stream. */
+  botRandomPick<T>(items: T[]): T {
+    const { value, state } = mulberry32(this.botRngState);
+    this.botRngState = state;
+    return items[Math.floor(value * items.length)];
+  }
+
+  /** Unbiased Fisher-Yates shuffle of a copy of the list. */
+  private shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  private logAction(entry: Omit<GameActionLogEntry, "round" | "phase" | "timestamp">): void {
+    this.actionLog.push({ round: this.round, phase: this.phase, ...entry, timestamp: Date.now() });
+    // Anything the player does themselves shows they are still at the table
+    const player = this.players.get(entry.playerId);
+    if (player && entry.type !== "foul" && entry.type !== "removed") {
+      player.missedTurns = 0;
+    }
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getActionLog(): GameActionLogEntry[] {
+    return this.actionLog;
+  }
+
+  addPlayer(playerId: string, playerName: string, isHost: boolean = false, bot?: BotBehaviourName): Player {
     const player: Player = {
       id: playerId,
       name: playerName,
       isAlive: true,
       isHost,
       role: undefined,
+      ...(bot && { bot, isReady: true }),
     };
     this.players.set(playerId, player);
     return player;
@@ -72,10 +257,12 @@ export class Room {
     const removed = this.players.delete(playerId);
 
     if (removed && wasHost && this.players.size > 0) {
-      // Assign new host (first player)
-      const newHost = Array.from(this.players.values())[0];
-      newHost.isHost = true;
-      this.hostId = newHost.id;
+      // Assign new host (first human player; bots cannot host)
+      const newHost = Array.from(this.players.values()).find((p) => !p.bot);
+      if (newHost) {
+        newHost.isHost = true;
+        this.hostId = newHost.id;
+      }
     }
 
     return removed;
@@ -93,8 +280,37 @@ export class Room {
     return this.getAllPlayers().filter((p) => p.isAlive);
   }
 
+  /** Toggle a player's lobby ready-check. */
+  setReady(playerId: string, isReady: boolean): TranslationKey | null {
+    const player = this.players.get(playerId);
+    if (!player) return "errorRoomRequired";
+    if (this.phase !== "lobby") return "errorInvalidPhase";
+    player.isReady = isReady;
+    return null;
+  }
+
+  /** The lobby may start on its own: enabled, enough players, a valid role setup and everyone ready. */
+  canAutoStart(): boolean {
+    return (
+      this.phase === "lobby" &&
+      this.settings.autoStart &&
+      this.players.size >= this.settings.minPlayers &&
+      this.getRoleSetupError(this.settings, this.players.size) === null &&
+      this.getAllPlayers().every((p) => p.isReady)
+    );
+  }
+
+  /** Living server-side bots; they have no socket and are played by GameTimer. */
+  getAliveBots(): Player[] {
+    return this.getAlivePlayers().filter((p) => p.bot);
+  }
+
   setSocketConnection(playerId: string, socketId: string): void {
     this.connectedSockets.set(playerId, socketId);
+    const player = this.players.get(playerId);
+    if (player) {
+      delete player.disconnectedAt;
+    }
   }
 
   removeSocketConnection(socketId: string): string | null {
@@ -102,14 +318,69 @@ export class Room {
     for (const [playerId, sId] of this.connectedSockets.entries()) {
       if (sId === socketId) {
         this.connectedSockets.delete(playerId);
+        const player = this.players.get(playerId);
+        if (player) {
+          player.disconnectedAt = Date.now();
+        }
         return playerId;
       }
     }
     return null;
   }
 
+  /** Bots have no socket but are always at the table. */
   isPlayerConnected(playerId: string): boolean {
-    return this.connectedSockets.has(playerId);
+    return this.connectedSockets.has(playerId) || !!this.players.get(playerId)?.bot;
+  }
+
+  /** Count a turn the player was not there for. */
+  recordMissedTurn(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (player) {
+      player.missedTurns = (player.missedTurns || 0) + 1;
+    }
+  }
+
+  /**
+   * Living players to remove from play under the AFK policy, with the reason: too many
+   * missed turns in a row, or disconnected for longer than the grace period.
+   */
+  getAfkRemovals(now: number): Array<{ playerId: string; reason: RemovalReason }> {
+    const { afkMissedTurns, disconnectGracePeriod } = this.settings;
+    return this.getAlivePlayers().flatMap((p): Array<{ playerId: string; reason: RemovalReason }> => {
+      if (afkMissedTurns > 0 && (p.missedTurns || 0) >= afkMissedTurns) {
+        return [{ playerId: p.id, reason: "missed-turns" }];
+      }
+      if (
+        disconnectGracePeriod > 0 &&
+        p.disconnectedAt !== undefined &&
+        now - p.disconnectedAt >= disconnectGracePeriod * 1000
+      ) {
+        return [{ playerId: p.id, reason: "disconnected" }];
+      }
+      return [];
+    });
+  }
+
+  /**
+   * Take a player out of play (they count as dead from now on). If they were the host,
+   * the host role passes to the first connected human player; returns the new host id.
+   */
+  removeFromPlay(playerId: string, reason: RemovalReason): string | null {
+    const player = this.players.get(playerId);
+    if (!player) return null;
+    player.missesNextSpeech = false;
+    this.markDead(playerId);
+    // Disconnect timing is not logged, so a replay needs the removal itself
+    this.logAction({ type: "removed", playerId, reason });
+
+    if (this.hostId !== playerId) return null;
+    const newHost = this.getAllPlayers().find((p) => p.id !== playerId && !p.bot && this.isPlayerConnected(p.id));
+    if (!newHost) return null;
+    player.isHost = false;
+    newHost.isHost = true;
+    this.hostId = newHost.id;
+    return newHost.id;
   }
 
   getAllPlayersWithConnectionStatus(): Array<Player & { isConnected: boolean }> {
@@ -119,17 +390,61 @@ export class Room {
     }));
   }
 
-  startGame(): void {
+  /**
+   * Role details a viewer may see about a player: their own role, fellow mafia,
+   * the dead according to the reveal setting, and everyone once the game is over.
+   */
+  getVisibleRole(viewerId: string | null, playerId: string): Pick<Player, "role" | "faction"> {
+    const player = this.players.get(playerId);
+    if (!player?.role) return {};
+
+    const viewer = viewerId ? this.players.get(viewerId) : undefined;
+    if (this.isEnded || viewerId === playerId || areTeammates(viewer?.role, player.role)) {
+      return { role: player.role };
+    }
+    if (!player.isAlive) {
+      if (this.settings.roleReveal === "role") return { role: player.role };
+      if (this.settings.roleReveal === "faction") return { faction: getRoleFaction(player.role) };
+    }
+    return {};
+  }
+
+  /** Player list as a given viewer is allowed to see it (roles filtered, connection status added). */
+  getPlayersView(viewerId: string | null): Array<Player & { isConnected: boolean }> {
+    return this.getAllPlayersWithConnectionStatus().map(({ role, faction, ...player }) => ({
+      ...player,
+      ...this.getVisibleRole(viewerId, player.id),
+    }));
+  }
+
+  /** Deal roles and open the first day. Returns the error key if the role setup does not fit the table. */
+  startGame(): TranslationKey | null {
     if (this.players.size < this.settings.minPlayers) {
       throw new Error(`Недостаточно игроков. Минимум: ${this.settings.minPlayers}`);
     }
+    const setupError = this.getRoleSetupError(this.settings, this.players.size);
+    if (setupError) return setupError;
 
+    // Replaying from the seed starts here, so the deal is the PRNG's first use
+    this.rngState = this.seed;
+    this.botRngState = botSeed(this.seed);
+    this.actionLog = [];
     this.assignRoles();
     this.round = 1;
+    this.lastOpenerId = null;
+    this.lastVictimId = null;
+    this.extraTimeUsed.clear();
+    this.players.forEach((player) => {
+      player.fouls = 0;
+      player.missesNextSpeech = false;
+      player.missedTurns = 0;
+    });
+    this.privateNightResults.clear();
     this.nightActions.clear();
     this.votes.clear();
     // Start with discussion phase (daytime discussion)
     this.startDiscussion();
+    return null;
   }
 
   startNextNight(): void {
@@ -138,60 +453,162 @@ export class Room {
     this.round += 1;
     this.nightActions.clear();
     this.votes.clear();
-    this.updateEndTime(this.settings.nightDuration);
+    // A sequential night wakes the roles one at a time, each for its own short window
+    const steps = this.settings.sequentialNight ? this.getNightSteps() : [];
+    this.nightStep = steps[0] ?? null;
+    this.updateEndTime(this.nightStep ? this.settings.nightStepDuration : this.getPhaseDuration("nightDuration"));
+  }
+
+  /**
+   * Steps of a sequential night for the roles dealt this game. Dead roles keep their step, so
+   * the wake-up order alone does not reveal who has died; a step only its dead actors hold
+   * runs its full window, while a living one ends as soon as everyone has acted.
+   */
+  private getNightSteps(): NightStep[] {
+    const dealtSteps = new Set(
+      this.getAllPlayers().flatMap((p) => getRoleDefinition(p.role).nightActions.map((a) => a.step))
+    );
+    return NIGHT_STEP_ORDER.filter((step) => dealtSteps.has(step));
+  }
+
+  /** Wake the next role of a sequential night; returns false once every step has had its turn. */
+  nextNightStep(): boolean {
+    if (!this.nightStep) return false;
+    const steps = this.getNightSteps();
+    const next = steps[steps.indexOf(this.nightStep) + 1];
+    if (!next) return false;
+    this.nightStep = next;
+    this.updateEndTime(this.settings.nightStepDuration);
+    return true;
+  }
+
+  getNightStep(): NightStep | null {
+    return this.nightStep;
+  }
+
+  /** Night actions the player may submit right now: all of them, or only the awake step's during a sequential night. */
+  getNightStepActions(playerId: string): NightActionType[] {
+    const role = this.players.get(playerId)?.role;
+    if (!role) return [];
+    return getRoleDefinition(role)
+      .nightActions.filter((a) => !this.nightStep || a.step === this.nightStep)
+      .map((a) => a.kind);
+  }
+
+  /** Living players with a night action to make right now (only the awake step's during a sequential night). */
+  getNightActorIds(): string[] {
+    return this.getAlivePlayers()
+      .filter((p) => this.getNightStepActions(p.id).length > 0)
+      .map((p) => p.id);
+  }
+
+  /** True once everyone awake in the current step has submitted all of their actions. */
+  isNightStepComplete(): boolean {
+    if (!this.nightStep) return false;
+    const actorIds = this.getNightActorIds();
+    return (
+      actorIds.length > 0 &&
+      actorIds.every((id) => this.getNightStepActions(id).every((action) => this.hasNightAction(id, action)))
+    );
+  }
+
+  /** Morning after a night: the table hears who died before anyone speaks. */
+  startMorning(): void {
+    this.phase = "day";
+    this.discussionState = null;
+    this.updateEndTime(this.settings.dayDuration);
+  }
+
+  /**
+   * Validate a role composition against a table size.
+   * Returns a translation key describing the problem, or null if the setup is playable.
+   */
+  getRoleSetupError(settings: GameSettings, playerCount: number): TranslationKey | null {
+    if (!Number.isInteger(settings.mafiaCount) || settings.mafiaCount < 1) {
+      return "errorMafiaCountInvalid";
+    }
+    // Mafia at or above half of the table would win (or tie) before the first vote
+    if (settings.mafiaCount * 2 >= playerCount) {
+      return "errorTooManyMafia";
+    }
+    const specialRoles = getEnabledSpecialRoles(settings).length;
+    if (settings.mafiaCount + specialRoles > playerCount) {
+      return "errorTooManyRoles";
+    }
+    return null;
+  }
+
+  /**
+   * Apply host settings from the lobby. Only whitelisted fields are copied.
+   * Returns a translation key if the update is rejected, null on success.
+   */
+  updateSettings(update: GameSettingsUpdate): TranslationKey | null {
+    if (this.phase !== "lobby") {
+      return "errorInvalidPhase";
+    }
+
+    const next: GameSettings = { ...this.settings };
+    if (update.mafiaCount !== undefined) {
+      if (typeof update.mafiaCount !== "number") return "errorInvalidSettings";
+      next.mafiaCount = update.mafiaCount;
+    }
+    for (const key of Object.keys(INTEGER_SETTINGS) as Array<keyof typeof INTEGER_SETTINGS>) {
+      const value = update[key];
+      if (value === undefined) continue;
+      const { min, max = Infinity }: { min: number; max?: number } = INTEGER_SETTINGS[key];
+      if (!Number.isInteger(value) || value < min || value > max) return "errorInvalidSettings";
+      next[key] = value;
+    }
+    // Removal must come after the lost speech, or the lost-speech penalty never applies
+    if (next.foulsToSkipSpeech >= next.foulsToRemove) return "errorFoulLimits";
+    if (update.durationScaling !== undefined) {
+      // The host sends the full set of formulas; phases left out go back to fixed durations
+      const scaling = update.durationScaling;
+      if (typeof scaling !== "object" || scaling === null) return "errorInvalidSettings";
+      for (const [key, formula] of Object.entries(scaling)) {
+        if (!SCALED_DURATIONS.includes(key as ScaledDuration) || !isValidDurationFormula(formula)) {
+          return "errorInvalidSettings";
+        }
+      }
+      next.durationScaling = scaling;
+    }
+    for (const key of BOOLEAN_SETTINGS) {
+      const value = update[key];
+      if (value === undefined) continue;
+      if (typeof value !== "boolean") return "errorInvalidSettings";
+      next[key] = value;
+    }
+    for (const key of Object.keys(ENUM_SETTINGS) as Array<keyof typeof ENUM_SETTINGS>) {
+      const value = update[key];
+      if (value === undefined) continue;
+      if (!(ENUM_SETTINGS[key] as readonly unknown[]).includes(value)) return "errorInvalidSettings";
+      Object.assign(next, { [key]: value });
+    }
+
+    // Validate against the smallest table the game could start with
+    const playerCount = Math.max(this.players.size, next.minPlayers);
+    const error = this.getRoleSetupError(next, playerCount);
+    if (error) return error;
+
+    this.settings = next;
+    return null;
   }
 
   private assignRoles(): void {
     const players = this.getAllPlayers();
-    const playerCount = players.length;
-    const shuffled = [...players].sort(() => Math.random() - 0.5);
-
-    // Calculate balanced roles based on player count
-    let mafiaCount: number;
-    let hasDoctor: boolean;
-    let hasSheriff: boolean;
-
-    if (playerCount <= 6) {
-      // Small games (4-6 players): 1 mafia, no МСР (мирные с ролью)
-      mafiaCount = 1;
-      hasDoctor = false;
-      hasSheriff = false;
-    } else if (playerCount <= 9) {
-      // Medium games (7-9 players): 2 mafia, 1 МСР (either doctor or sheriff)
-      mafiaCount = 2;
-      // Randomly choose one МСР role
-      // hasDoctor = Math.random() < 0.5;
-      // hasSheriff = !hasDoctor;
-      hasDoctor = false;
-      hasSheriff = false;
-
-    } else if (playerCount <= 12) {
-      // Large games (10-12 players): 3 mafia, both МСР
-      mafiaCount = 3;
-      // TODO: Randomly choose one МСР role
-      hasDoctor = false;
-      hasSheriff = false;
-    } else {
-      // Very large games (13-16 players): 4 mafia, both МСР
-      mafiaCount = 4;
-      // TODO: Randomly choose one МСР role
-      hasDoctor = false;
-      hasSheriff = false;
-    }
+    const shuffled = this.shuffle(players);
 
     let index = 0;
 
-    // Assign mafia
-    for (let i = 0; i < mafiaCount && i < shuffled.length; i++) {
-      shuffled[index++].role = "mafia";
+    // Assign mafia (the Don takes one of the mafia slots)
+    for (let i = 0; i < this.settings.mafiaCount && index < shuffled.length; i++) {
+      shuffled[index++].role = i === 0 && this.settings.hasDon ? "don" : "mafia";
     }
 
-    // Assign МСР (мирные с ролью) - doctor and sheriff
-    if (hasDoctor && index < shuffled.length) {
-      shuffled[index++].role = "doctor";
-    }
-    if (hasSheriff && index < shuffled.length) {
-      shuffled[index++].role = "sheriff";
+    // One seat for each special role switched on in the lobby (maniac, doctor, sheriff, ...)
+    for (const role of getEnabledSpecialRoles(this.settings)) {
+      if (index >= shuffled.length) break;
+      shuffled[index++].role = role;
     }
 
     // Rest are citizens
@@ -200,123 +617,486 @@ export class Room {
     }
   }
 
-  setNightAction(playerId: string, targetId: string): void {
-    this.nightActions.set(playerId, targetId);
+  /** Night actions the player's role allows; empty for roles that sleep through the night. */
+  getAllowedNightActions(playerId: string): NightActionType[] {
+    const role = this.players.get(playerId)?.role;
+    return role ? getRoleDefinition(role).nightActions.map((a) => a.kind) : [];
+  }
+
+  /** Night actions the player may make right now, each with the living targets it may be aimed at. */
+  getNightActionPrompts(playerId: string): NightActionPrompt[] {
+    if (!this.players.get(playerId)?.isAlive) return [];
+    return this.getNightStepActions(playerId).map((action) => ({
+      action,
+      targetIds: this.getAlivePlayers()
+        .map((p) => p.id)
+        .filter((targetId) => this.getNightActionError(playerId, targetId, action) === null),
+    }));
   }
 
-  getNightActions(): Map<string, string> {
+  /**
+   * Check role-specific restrictions on a night action target.
+   * Returns a translation key if the action is not allowed, null otherwise.
+   */
+  getNightActionError(playerId: string, targetId: string, action: NightActionType): RuleViolation | null {
+    if (!this.getNightStepActions(playerId).includes(action)) {
+      return "errorNotYourNightStep";
+    }
+    if (!this.players.get(targetId)?.isAlive) {
+      return "errorInvalidTarget";
+    }
+    if (action === "heal") {
+      const heals = this.getPrivateNightResults(playerId).filter((r) => r.type === "doctor-heal");
+      if (
+        this.settings.doctorSelfHealOnce &&
+        targetId === playerId &&
+        heals.some((r) => r.targetId === playerId)
+      ) {
+        return "errorSelfHealUsed";
+      }
+      if (
+        this.settings.doctorNoRepeatHeal &&
+        heals.some((r) => r.round === this.round - 1 && r.targetId === targetId)
+      ) {
+        return "errorHealSameTwice";
+      }
+    }
+    // Only the doctor's heal may be aimed at oneself; shooting, checking, guarding or visiting yourself means nothing
+    if (action !== "heal" && targetId === playerId) {
+      return "errorCannotTargetSelf";
+    }
+    return null;
+  }
+
+  setNightAction(playerId: string, targetId: string, action: NightActionType): void {
+    const playerActions = this.nightActions.get(playerId) || {};
+    playerActions[action] = targetId;
+    this.nightActions.set(playerId, playerActions);
+    this.logAction({ type: "night-action", playerId, targetId, action });
+  }
+
+  getNightActions(): Map<string, PlayerNightActions> {
     return this.nightActions;
   }
 
+  hasNightAction(playerId: string, action: NightActionType): boolean {
+    return this.nightActions.get(playerId)?.[action] !== undefined;
+  }
+
+  /** Current mafia kill votes: targetId -> number of team killers (including the Don) choosing it. */
+  getMafiaVoteCounts(): Record<string, number> {
+    const voteCounts: Record<string, number> = {};
+    this.getActionsOfType("kill").forEach(([id, targetId]) => {
+      if (getRoleDefinition(this.players.get(id)?.role).teamKill) {
+        voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
+      }
+    });
+    return voteCounts;
+  }
+
+  private getActionsOfType(action: NightActionType): Array<[string, string]> {
+    const result: Array<[string, string]> = [];
+    this.nightActions.forEach((playerActions, playerId) => {
+      const targetId = playerActions[action];
+      if (targetId) {
+        result.push([playerId, targetId]);
+      }
+    });
+    return result;
+  }
+
   getSocketId(playerId: string): string | undefined {
     return this.connectedSockets.get(playerId);
   }
 
-  processNightPhase(): {
-    killedId: string | null;
-    savedId: string | null;
-    checkedId?: string;
-    checkedRole?: Role;
+  processNightPhase(): NightResult & {
+    privateResults: Array<{ playerId: string; result: PrivateNightResult }>;
   } {
-    const actions = Array.from(this.nightActions.entries());
-    
-    // Get all mafia actions (votes)
-    const mafiaActions = actions.filter(([id]) => {
-      const player = this.players.get(id);
-      return player?.role === "mafia";
-    });
-    
-    // Get mafia players count
-    const mafiaPlayers = Array.from(this.players.values()).filter(p => p.role === "mafia" && p.isAlive);
-    
-    let killedId: string | null = null;
-    
-    // If there are multiple mafia players, use voting logic
-    if (mafiaPlayers.length > 1 && mafiaActions.length > 0) {
-      // Count votes for each target
-      const voteCounts: Record<string, number> = {};
-      mafiaActions.forEach(([_, targetId]) => {
-        if (targetId) {
-          voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
-        }
+    const privateResults: Array<{ playerId: string; result: PrivateNightResult }> = [];
+    const blockedIds = new Set<string>();
+    let mafiaTargetId: string | null = null;
+    let soloTargetIds: string[] = [];
+    let savedId: string | null = null;
+    let doctorId: string | null = null;
+
+    // Resolve actions in priority order; a blocked player's actions are skipped
+    for (const action of NIGHT_ACTION_ORDER) {
+      const entries = this.getActionsOfType(action).filter(([id]) => {
+        const player = this.players.get(id);
+        return player?.isAlive && !blockedIds.has(id) && this.getAllowedNightActions(id).includes(action);
       });
-      
-      // Find target(s) with maximum votes
-      const maxVotes = Math.max(...Object.values(voteCounts), 0);
-      const targetsWithMaxVotes = Object.entries(voteCounts)
-        .filter(([_, count]) => count === maxVotes)
-        .map(([targetId]) => targetId);
-      
-      // If there's a clear winner (one target with most votes), use it
-      // If there's a tie (multiple targets with same max votes), pick randomly
-      if (targetsWithMaxVotes.length === 1) {
-        killedId = targetsWithMaxVotes[0];
-      } else if (targetsWithMaxVotes.length > 1) {
-        // Random selection from tied targets
-        const randomIndex = Math.floor(Math.random() * targetsWithMaxVotes.length);
-        killedId = targetsWithMaxVotes[randomIndex];
+
+      switch (action) {
+        case "block":
+          // The courtesan visits a player and cancels everything they submitted tonight
+          entries.forEach(([, targetId]) => {
+            blockedIds.add(targetId);
+            privateResults.push({ playerId: targetId, result: { type: "blocked", round: this.round } });
+          });
+          break;
+
+        case "kill": {
+          // Team killers (the mafia and the Don) vote together; solo killers like the maniac act alone
+          const mafiaActions = entries.filter(([id]) => getRoleDefinition(this.players.get(id)?.role).teamKill);
+          const { targetId, missReason } = this.resolveMafiaTarget(mafiaActions, blockedIds);
+          mafiaTargetId = targetId;
+          if (missReason) {
+            this.getAlivePlayers()
+              .filter((p) => getRoleDefinition(p.role).teamKill)
+              .forEach((p) => {
+                privateResults.push({
+                  playerId: p.id,
+                  result: { type: "mafia-miss", round: this.round, reason: missReason },
+                });
+              });
+          }
+          soloTargetIds = entries
+            .filter(([id]) => !getRoleDefinition(this.players.get(id)?.role).teamKill)
+            .map(([, targetId]) => targetId);
+          break;
+        }
+
+        case "guard":
+          // The bodyguard takes the mafia's shot in place of the player they protect
+          entries.forEach(([bodyguardId, targetId]) => {
+            const intercepted = mafiaTargetId !== null && mafiaTargetId === targetId;
+            if (intercepted) {
+              mafiaTargetId = bodyguardId;
+            }
+            privateResults.push({
+              playerId: bodyguardId,
+              result: { type: "bodyguard-guard", round: this.round, targetId, intercepted },
+            });
+          });
+          break;
+
+        case "heal":
+          if (entries.length > 0) {
+            [doctorId, savedId] = entries[0];
+          }
+          break;
+
+        case "check":
+          entries.forEach(([sheriffId, targetId]) => {
+            const role = this.players.get(targetId)?.role;
+            if (role) {
+              privateResults.push({
+                playerId: sheriffId,
+                result: { type: "sheriff-check", round: this.round, targetId, role },
+              });
+            }
+          });
+          break;
+
+        case "don-check":
+          // The Don learns only whether the target is the sheriff
+          entries.forEach(([donId, targetId]) => {
+            const target = this.players.get(targetId);
+            if (target) {
+              const isSheriff = getRoleDefinition(target.role).foundByDonCheck;
+              privateResults.push({
+                playerId: donId,
+                result: { type: "don-check", round: this.round, targetId, isSheriff },
+              });
+            }
+          });
+          break;
       }
-    } else if (mafiaActions.length > 0) {
-      // Single mafia player, use their action directly
-      killedId = mafiaActions[0][1];
     }
-    
-    const doctorAction = actions.find(([id]) => {
-      const player = this.players.get(id);
-      return player?.role === "doctor";
+
+    if (doctorId && savedId) {
+      privateResults.push({
+        playerId: doctorId,
+        result: {
+          type: "doctor-heal",
+          round: this.round,
+          targetId: savedId,
+          saved: mafiaTargetId === savedId || soloTargetIds.includes(savedId),
+        },
+      });
+    }
+
+    // Kill players if not saved; the doctor's heal protects from both attacks
+    const killedIds: string[] = [];
+    [mafiaTargetId, ...soloTargetIds].forEach((targetId) => {
+      if (!targetId || targetId === savedId || killedIds.includes(targetId)) return;
+      if (this.players.get(targetId)?.isAlive) {
+        this.markDead(targetId);
+        killedIds.push(targetId);
+      }
     });
-    const sheriffAction = actions.find(([id]) => {
-      const player = this.players.get(id);
-      return player?.role === "sheriff";
+
+    // Keep private results so they can be replayed to the player on reconnect
+    privateResults.forEach(({ playerId, result }) => {
+      const history = this.privateNightResults.get(playerId) || [];
+      history.push(result);
+      this.privateNightResults.set(playerId, history);
     });
 
-    const savedId = doctorAction ? doctorAction[1] : null;
-    const checkedId = sheriffAction ? sheriffAction[1] : undefined;
-    const checkedRole = checkedId ? this.players.get(checkedId)?.role : undefined;
+    this.nightActions.clear();
+    this.nightStep = null;
+    this.lastNightResult = { killedIds };
+    return { killedIds, privateResults };
+  }
 
-    // Kill player if not saved
-    if (killedId && killedId !== savedId) {
-      const player = this.players.get(killedId);
-      if (player) {
-        player.isAlive = false;
+  /** Settle the mafia's shot according to the room's night-kill policy. */
+  private resolveMafiaTarget(
+    mafiaActions: Array<[string, string]>,
+    blockedIds: Set<string>
+  ): { targetId: string | null; missReason?: MafiaMissReason } {
+    const policy = this.settings.nightKillPolicy;
+    // Mafia members who could act tonight (alive and not visited by the courtesan)
+    const actingMafia = this.getAlivePlayers().filter(
+      (p) => getRoleDefinition(p.role).teamKill && !blockedIds.has(p.id)
+    );
+    if (actingMafia.length === 0) return { targetId: null };
+
+    if (policy === "don-decides") {
+      const don = actingMafia.find((p) => getRoleDefinition(p.role).leadsTeamKill);
+      // Without an acting Don the rest of the family falls back to a plurality vote
+      if (don) {
+        const donAction = mafiaActions.find(([id]) => id === don.id);
+        return donAction ? { targetId: donAction[1] } : { targetId: null, missReason: "don-silent" };
       }
     }
 
-    this.nightActions.clear();
-    return { killedId, savedId, checkedId, checkedRole };
+    if (mafiaActions.length === 0) return { targetId: null, missReason: "no-target" };
+
+    const voteCounts: Record<string, number> = {};
+    mafiaActions.forEach(([, targetId]) => {
+      voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
+    });
+
+    if (policy === "unanimous") {
+      const targets = Object.keys(voteCounts);
+      if (targets.length === 1 && mafiaActions.length === actingMafia.length) {
+        return { targetId: targets[0] };
+      }
+      return { targetId: null, missReason: "not-unanimous" };
+    }
+
+    // Find target(s) with maximum votes
+    const maxVotes = Math.max(...Object.values(voteCounts), 0);
+    const targetsWithMaxVotes = Object.entries(voteCounts)
+      .filter(([_, count]) => count === maxVotes)
+      .map(([targetId]) => targetId);
+
+    // A clear winner always dies; a tie misses unless the policy settles it at random
+    if (targetsWithMaxVotes.length === 1) {
+      return { targetId: targetsWithMaxVotes[0] };
+    }
+    if (policy === "random-tie") {
+      return { targetId: this.randomPick(targetsWithMaxVotes) };
+    }
+    return { targetId: null, missReason: "tie" };
+  }
+
+  getPrivateNightResults(playerId: string): PrivateNightResult[] {
+    return this.privateNightResults.get(playerId) || [];
+  }
+
+  /** A foul can be given to a living player while a game is running. */
+  getFoulError(playerId: string): TranslationKey | null {
+    if (this.phase === "lobby" || this.isGameOver()) return "errorInvalidPhase";
+    if (!this.players.get(playerId)?.isAlive) return "errorInvalidTarget";
+    return null;
+  }
+
+  /**
+   * Record a foul. Reaching foulsToSkipSpeech costs the player their next speech;
+   * reaching foulsToRemove means the caller takes them out of play (removeFromPlay).
+   */
+  addFoul(playerId: string): { fouls: number; losesSpeech: boolean; removed: boolean } {
+    const player = this.players.get(playerId)!;
+    const fouls = (player.fouls || 0) + 1;
+    player.fouls = fouls;
+    this.logAction({ type: "foul", playerId });
+
+    const removed = fouls >= this.settings.foulsToRemove;
+    const losesSpeech = !removed && fouls === this.settings.foulsToSkipSpeech;
+    if (losesSpeech) {
+      player.missesNextSpeech = true;
+    }
+    return { fouls, losesSpeech, removed };
+  }
+
+  /**
+   * Give eliminated players their last words, one after another, before moving on.
+   * Players who are no longer connected are skipped; returns false if nobody is left to speak.
+   */
+  startLastWords(playerIds: string[], nextPhase: LastWordsState["nextPhase"]): boolean {
+    const [speakerId, ...queue] = playerIds.filter((id) => this.isPlayerConnected(id));
+    if (!speakerId) return false;
+    this.phase = "last-words";
+    this.discussionState = null;
+    this.lastWordsState = { speakerId, queue, nextPhase };
+    this.updateEndTime(this.settings.lastWordsDuration);
+    return true;
+  }
+
+  /** Move to the next connected eliminated player; returns false when nobody is left to speak. */
+  nextLastWords(): boolean {
+    if (!this.lastWordsState) return false;
+    const [speakerId, ...queue] = this.lastWordsState.queue.filter((id) => this.isPlayerConnected(id));
+    if (!speakerId) return false;
+    this.lastWordsState = { ...this.lastWordsState, speakerId, queue };
+    this.updateEndTime(this.settings.lastWordsDuration);
+    return true;
+  }
+
+  /** Finish the last-words phase and return the phase that should start next. */
+  endLastWords(): LastWordsState["nextPhase"] {
+    const nextPhase = this.lastWordsState?.nextPhase ?? "night";
+    this.lastWordsState = null;
+    return nextPhase;
+  }
+
+  getLastWordsState(): LastWordsState | null {
+    return this.lastWordsState;
+  }
+
+  /** Take a player out of the game and remember them as the latest victim. */
+  private markDead(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (player) {
+      player.isAlive = false;
+      this.lastVictimId = playerId;
+    }
+  }
+
+  /** Living players in seat order, going round the table from the given seat. */
+  private getAliveFromSeat(seatIndex: number): string[] {
+    const seats = this.getAllPlayers();
+    if (seats.length === 0) return [];
+    const start = ((seatIndex % seats.length) + seats.length) % seats.length;
+    return [...seats.slice(start), ...seats.slice(0, start)]
+      .filter((p) => p.isAlive)
+      .map((p) => p.id);
+  }
+
+  private getSeatIndex(playerId: string | null): number {
+    return playerId ? this.getAllPlayers().findIndex((p) => p.id === playerId) : -1;
+  }
+
+  /** Pick today's opening seat according to the rotation setting and return the speaking order. */
+  private buildSpeakerOrder(): string[] {
+    const alivePlayers = this.getAlivePlayers();
+    if (alivePlayers.length === 0) return [];
+
+    const rotation = this.settings.speakerRotation;
+    const victimSeat = this.getSeatIndex(this.lastVictimId);
+    const openerSeat = this.getSeatIndex(this.lastOpenerId);
+    let startSeat: number;
+    if (rotation === "random") {
+      const opener = this.randomPick(alivePlayers);
+      startSeat = this.getSeatIndex(opener.id);
+    } else if (rotation === "after-victim" && victimSeat >= 0) {
+      startSeat = victimSeat + 1;
+    } else {
+      // Clockwise: the seat after yesterday's opener (first seat on day one)
+      startSeat = openerSeat >= 0 ? openerSeat + 1 : 0;
+    }
+    return this.getAliveFromSeat(startSeat);
   }
 
   startDiscussion(): void {
     this.phase = "discussion";
-    const alivePlayers = this.getAlivePlayers();
+    this.nominations = [];
+    const speakerOrder = this.buildSpeakerOrder();
+    this.lastOpenerId = speakerOrder[0] ?? this.lastOpenerId;
+    const firstIndex = this.findSpeakerIndex(speakerOrder, 0);
     
     // Start with individual discussion
     this.discussionState = {
-      currentSpeakerId: alivePlayers[0]?.id || null,
-      speakerOrder: alivePlayers.map((p) => p.id),
-      currentSpeakerIndex: 0,
+      currentSpeakerId: speakerOrder[firstIndex] || null,
+      speakerOrder,
+      currentSpeakerIndex: firstIndex,
       isIndividualPhase: true,
-      speakingTimePerPlayer: this.settings.individualDiscussionDuration,
+      speakingTimePerPlayer: this.getPhaseDuration("individualDiscussionDuration"),
     };
-    this.updateEndTime(this.settings.individualDiscussionDuration);
+    this.updateEndTime(this.getPhaseDuration("individualDiscussionDuration"));
+  }
+
+  /**
+   * First index from `index` on whose player may speak: removed players are passed over,
+   * a player serving a foul penalty loses this turn (the penalty is then used up), and
+   * a disconnected player's turn is skipped and counted as missed.
+   */
+  private findSpeakerIndex(order: string[], index: number): number {
+    while (index < order.length) {
+      const player = this.players.get(order[index]);
+      if (player?.isAlive && !player.missesNextSpeech && this.isPlayerConnected(player.id)) break;
+      if (player?.isAlive && !player.missesNextSpeech) this.recordMissedTurn(player.id);
+      if (player) player.missesNextSpeech = false;
+      index++;
+    }
+    return index;
+  }
+
+  /** Like findSpeakerIndex for the individual vote: skips removed and disconnected voters. */
+  private findVoterIndex(order: string[], index: number): number {
+    while (index < order.length) {
+      const player = this.players.get(order[index]);
+      if (player?.isAlive && this.isPlayerConnected(player.id)) break;
+      if (player?.isAlive) this.recordMissedTurn(player.id);
+      index++;
+    }
+    return index;
+  }
+
+  /** Only the current speaker of the individual discussion may pass or take extra time. */
+  getSpeakerActionError(playerId: string): TranslationKey | null {
+    if (this.phase !== "discussion" || !this.discussionState?.isIndividualPhase) return "errorInvalidPhase";
+    if (this.discussionState.currentSpeakerId !== playerId) return "errorNotYourSpeech";
+    return null;
+  }
+
+  /** The current speaker ends their speech early; the caller moves on to the next speaker. */
+  passSpeech(playerId: string): TranslationKey | null {
+    const error = this.getSpeakerActionError(playerId);
+    if (error) return error;
+    this.logAction({ type: "pass", playerId });
+    return null;
+  }
+
+  getExtraTimeLeft(playerId: string): number {
+    return Math.max(this.settings.extraTimeTokens - (this.extraTimeUsed.get(playerId) || 0), 0);
+  }
+
+  /** Spend one of the speaker's extra-time tokens to extend the current speech (once per speech). */
+  useExtraTime(playerId: string): TranslationKey | null {
+    const error = this.getSpeakerActionError(playerId);
+    if (error) return error;
+    if (this.discussionState!.extended) return "errorExtraTimeUsed";
+    if (this.getExtraTimeLeft(playerId) === 0) return "errorNoExtraTime";
+
+    this.logAction({ type: "extra-time", playerId });
+    this.extraTimeUsed.set(playerId, (this.extraTimeUsed.get(playerId) || 0) + 1);
+    this.discussionState!.extended = true;
+    this.endTime = (this.endTime ?? Date.now()) + this.settings.extraTimeDuration * 1000;
+    return null;
   }
 
   nextSpeaker(): boolean {
     if (!this.discussionState) return false;
 
     if (this.discussionState.isIndividualPhase) {
-      const nextIndex = this.discussionState.currentSpeakerIndex + 1;
+      const nextIndex = this.findSpeakerIndex(
+        this.discussionState.speakerOrder,
+        this.discussionState.currentSpeakerIndex + 1
+      );
+      this.discussionState.extended = false;
       if (nextIndex < this.discussionState.speakerOrder.length) {
         this.discussionState.currentSpeakerIndex = nextIndex;
         this.discussionState.currentSpeakerId =
           this.discussionState.speakerOrder[nextIndex];
-        this.updateEndTime(this.settings.individualDiscussionDuration);
+        this.updateEndTime(this.getPhaseDuration("individualDiscussionDuration"));
         return true;
       } else {
         // Move to general discussion
         this.discussionState.isIndividualPhase = false;
         this.discussionState.currentSpeakerId = null;
-        this.updateEndTime(this.settings.discussionDuration);
+        this.updateEndTime(this.getPhaseDuration("discussionDuration"));
         return true;
       }
     }
@@ -327,18 +1107,132 @@ export class Room {
   endDiscussion(): void {
     this.discussionState = null;
     this.phase = "voting";
-    const alivePlayers = this.getAlivePlayers();
+    // Vote in the same order as today's speeches
+    const voterOrder = this.getAliveFromSeat(Math.max(this.getSeatIndex(this.lastOpenerId), 0));
+    const firstIndex = this.findVoterIndex(voterOrder, 0);
     
     // Start individual voting
     this.discussionState = {
-      currentSpeakerId: alivePlayers[0]?.id || null,
-      speakerOrder: alivePlayers.map((p) => p.id),
-      currentSpeakerIndex: 0,
+      currentSpeakerId: voterOrder[firstIndex] || null,
+      speakerOrder: voterOrder,
+      currentSpeakerIndex: firstIndex,
       isIndividualPhase: true,
-      speakingTimePerPlayer: this.settings.individualVotingDuration,
+      speakingTimePerPlayer: this.getPhaseDuration("individualVotingDuration"),
     };
     this.votes.clear();
-    this.updateEndTime(this.settings.individualVotingDuration);
+    this.updateEndTime(this.getPhaseDuration("individualVotingDuration"));
+  }
+
+  /**
+   * Single gate for player input: checks the game is running, the actor is a living player,
+   * it is the right phase and their turn, and the target is one the rules allow.
+   * Returns the reason for rejecting the action, or null if the game may accept it.
+   */
+  validateAction(playerId: string, input: PlayerAction): RuleViolation | null {
+    if (this.isGameOver() || this.phase === "lobby") return "errorInvalidPhase";
+    if (this.isPaused()) return "errorGamePaused";
+    const player = this.players.get(playerId);
+    const isVote = input.type === "vote" || input.type === "eliminate-all-vote";
+    if (!player?.isAlive) return isVote ? "errorDeadCannotVote" : "errorDeadCannotAct";
+
+    switch (input.type) {
+      case "vote": {
+        if (!this.isBallotOpen()) return "errorInvalidPhase";
+        if (this.discussionState?.isIndividualPhase && this.discussionState.currentSpeakerId !== playerId) {
+          return "errorNotYourTurn";
+        }
+        if (this.votes.has(playerId)) return "errorAlreadyVoted";
+        if (!this.players.get(input.targetId)?.isAlive) return "errorInvalidTarget";
+        // Only a voter whose turn runs out ends up voting against themselves
+        if (input.targetId === playerId) return "errorCannotTargetSelf";
+        // During a revote, or with nominations on, only the candidates can be voted against
+        const candidates = this.getVoteCandidates();
+        if (candidates && !candidates.includes(input.targetId)) return "errorNotACandidate";
+        return null;
+      }
+      case "night-action":
+        if (this.phase !== "night") return "errorInvalidPhase";
+        if (!input.action || !this.getAllowedNightActions(playerId).includes(input.action)) {
+          return "errorNoNightAction";
+        }
+        return this.getNightActionError(playerId, input.targetId, input.action);
+      case "nominate":
+        return this.getNominationError(playerId, input.targetId);
+      case "eliminate-all-vote":
+        if (this.phase !== "voting" || this.tieBreakState?.stage !== "eliminate-all") return "errorInvalidPhase";
+        if (playerId in this.tieBreakState.eliminateAllVotes) return "errorAlreadyVoted";
+        return null;
+    }
+  }
+
+  /** Action a night actor means when they do not name one: the first one open to them right now. */
+  getDefaultNightAction(playerId: string): NightActionType | undefined {
+    return this.getNightStepActions(playerId)[0];
+  }
+
+  /**
+   * Check that the player may nominate the target right now: only the current speaker
+   * of the individual discussion, once per speech, a living player not yet nominated.
+   */
+  getNominationError(nominatorId: string, nomineeId: string): RuleViolation | null {
+    if (!this.settings.nominationsEnabled) return "errorNominationsDisabled";
+    if (this.phase !== "discussion" || !this.discussionState?.isIndividualPhase) return "errorInvalidPhase";
+    if (this.discussionState.currentSpeakerId !== nominatorId) return "errorNotYourSpeech";
+    if (this.nominations.some((n) => n.nominatorId === nominatorId)) return "errorAlreadyNominated";
+    if (!this.players.get(nomineeId)?.isAlive) return "errorInvalidTarget";
+    if (this.nominations.some((n) => n.nomineeId === nomineeId)) return "errorAlreadyNominee";
+    return null;
+  }
+
+  nominate(nominatorId: string, nomineeId: string): void {
+    this.nominations.push({ nominatorId, nomineeId });
+    this.logAction({ type: "nominate", playerId: nominatorId, targetId: nomineeId });
+  }
+
+  getNominations(): Nomination[] {
+    return this.nominations;
+  }
+
+  getNominees(): string[] {
+    return this.nominations.map((n) => n.nomineeId).filter((id) => this.players.get(id)?.isAlive);
+  }
+
+  /** Players that may currently be voted against, or null when any player may be. */
+  getVoteCandidates(): string[] | null {
+    if (this.tieBreakState?.stage === "revote") {
+      return this.tieBreakState.candidateIds;
+    }
+    if (this.settings.nominationsEnabled && this.phase === "voting") {
+      return this.getNominees();
+    }
+    return null;
+  }
+
+  /** Close the day without a ballot (e.g. nobody was nominated). */
+  skipVoting(): void {
+    this.votes.clear();
+    this.discussionState = null;
+  }
+
+  /** Eliminate the only nominee without a ballot. */
+  eliminateSingleNominee(): {
+    eliminatedId: string | null;
+    votes: Record<string, number>;
+    isTie: boolean;
+    tiedIds: string[];
+  } {
+    const [nomineeId] = this.getNominees();
+    const eliminatedId = nomineeId && this.players.has(nomineeId) ? nomineeId : null;
+    if (eliminatedId) {
+      this.markDead(eliminatedId);
+    }
+    this.skipVoting();
+    return { eliminatedId, votes: {}, isTie: false, tiedIds: [] };
+  }
+
+  /** True while the regular (or revote) ballot is open, false during defence speeches and the yes/no vote. */
+  isBallotOpen(): boolean {
+    return this.phase === "voting" && (!this.tieBreakState || this.tieBreakState.stage === "revote");
   }
 
   vote(voterId: string, targetId: string): void {
@@ -347,6 +1241,14 @@ export class Room {
       throw new Error("Вы уже проголосовали");
     }
     this.votes.set(voterId, targetId);
+    this.logAction({ type: "vote", playerId: voterId, targetId });
+  }
+
+  /** A voter whose turn ran out votes against themselves, and the turn counts as missed. */
+  autoVote(voterId: string): void {
+    const missedTurns = this.players.get(voterId)?.missedTurns || 0;
+    this.vote(voterId, voterId);
+    this.players.get(voterId)!.missedTurns = missedTurns + 1;
   }
 
   getPlayerVote(playerId: string): string | undefined {
@@ -364,12 +1266,15 @@ export class Room {
   nextVoter(): boolean {
     if (!this.discussionState) return false;
 
-    const nextIndex = this.discussionState.currentSpeakerIndex + 1;
+    const nextIndex = this.findVoterIndex(
+      this.discussionState.speakerOrder,
+      this.discussionState.currentSpeakerIndex + 1
+    );
     if (nextIndex < this.discussionState.speakerOrder.length) {
       this.discussionState.currentSpeakerIndex = nextIndex;
       this.discussionState.currentSpeakerId =
         this.discussionState.speakerOrder[nextIndex];
-      this.updateEndTime(this.settings.individualVotingDuration);
+      this.updateEndTime(this.getPhaseDuration("individualVotingDuration"));
       return true;
     }
 
@@ -380,16 +1285,22 @@ export class Room {
     eliminatedId: string | null;
     votes: Record<string, number>;
     isTie: boolean;
+    tiedIds: string[];
   } {
     // Count votes
     const voteCounts: Record<string, number> = {};
-    this.votes.forEach((targetId) => {
+    this.votes.forEach((targetId, voterId) => {
+      // Ballots of or against players removed during the vote do not count
+      if (!this.players.get(voterId)?.isAlive || !this.players.get(targetId)?.isAlive) return;
       voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
     });
 
-    // Auto-vote for players who didn't vote
+    // Auto-vote for players who didn't vote (only where a self-vote is allowed)
+    const candidates = this.getVoteCandidates();
     this.getAlivePlayers().forEach((player) => {
-      if (!this.votes.has(player.id)) {
+      // Disconnected players abstain instead of being counted against themselves
+      if (!this.isPlayerConnected(player.id)) return;
+      if (!this.votes.has(player.id) && (!candidates || candidates.includes(player.id))) {
         voteCounts[player.id] = (voteCounts[player.id] || 0) + 1;
       }
     });
@@ -403,26 +1314,153 @@ export class Room {
     const isTie = playersWithMaxVotes.length > 1 || maxVotes === 0;
     const eliminatedId = isTie ? null : playersWithMaxVotes[0];
 
-    if (eliminatedId) {
-      const player = this.players.get(eliminatedId);
-      if (player) {
-        player.isAlive = false;
-      }
+    if (eliminatedId && this.players.has(eliminatedId)) {
+      this.markDead(eliminatedId);
     }
 
     this.votes.clear();
     this.discussionState = null;
 
-    return { eliminatedId, votes: voteCounts, isTie };
+    return { eliminatedId, votes: voteCounts, isTie, tiedIds: isTie ? playersWithMaxVotes : [] };
+  }
+
+  /**
+   * Start defence speeches of the tied candidates, one after another. Candidates who are
+   * dead or disconnected are skipped; currentSpeakerId is null if none of them can speak.
+   */
+  startDefence(candidateIds: string[]): void {
+    const firstIndex = this.findDefenceIndex(candidateIds, 0);
+    this.phase = "voting";
+    this.tieBreakState = { stage: "defence", candidateIds, eliminateAllVotes: {} };
+    this.discussionState = {
+      currentSpeakerId: candidateIds[firstIndex] || null,
+      speakerOrder: [...candidateIds],
+      currentSpeakerIndex: firstIndex,
+      isIndividualPhase: true,
+      speakingTimePerPlayer: this.settings.defenceDuration,
+    };
+    this.updateEndTime(this.settings.defenceDuration);
+  }
+
+  // First candidate from `index` on who is alive and at the table to defend themselves
+  private findDefenceIndex(order: string[], index: number): number {
+    while (index < order.length && !(this.players.get(order[index])?.isAlive && this.isPlayerConnected(order[index]))) {
+      index++;
+    }
+    return index;
+  }
+
+  nextDefenceSpeaker(): boolean {
+    if (!this.discussionState || this.tieBreakState?.stage !== "defence") return false;
+
+    const nextIndex = this.findDefenceIndex(
+      this.discussionState.speakerOrder,
+      this.discussionState.currentSpeakerIndex + 1
+    );
+    if (nextIndex < this.discussionState.speakerOrder.length) {
+      this.discussionState.currentSpeakerIndex = nextIndex;
+      this.discussionState.currentSpeakerId = this.discussionState.speakerOrder[nextIndex];
+      this.updateEndTime(this.settings.defenceDuration);
+      return true;
+    }
+    return false;
+  }
+
+  /** Revote in the usual individual order, restricted to the tied candidates. */
+  startRevote(): void {
+    if (!this.tieBreakState) return;
+    this.endDiscussion();
+    this.tieBreakState = { ...this.tieBreakState, stage: "revote" };
+  }
+
+  /** Yes/no vote on eliminating every candidate still tied after the revote. */
+  startEliminateAllVote(candidateIds: string[]): void {
+    this.phase = "voting";
+    this.discussionState = null;
+    this.votes.clear();
+    this.tieBreakState = { stage: "eliminate-all", candidateIds, eliminateAllVotes: {} };
+    this.updateEndTime(this.getPhaseDuration("votingDuration"));
+  }
+
+  castEliminateAllVote(voterId: string, eliminate: boolean): void {
+    if (this.tieBreakState?.stage !== "eliminate-all") {
+      throw new Error("Сейчас нет голосования за исключение всех");
+    }
+    if (voterId in this.tieBreakState.eliminateAllVotes) {
+      throw new Error("Вы уже проголосовали");
+    }
+    this.tieBreakState.eliminateAllVotes[voterId] = eliminate;
+    this.logAction({ type: "eliminate-all-vote", playerId: voterId, eliminate });
+  }
+
+  /** True once every living, connected player has answered the yes/no vote; the disconnected abstain. */
+  hasEveryoneVotedEliminateAll(): boolean {
+    const ballot = this.tieBreakState?.eliminateAllVotes ?? {};
+    return this.getAlivePlayers().every((p) => p.id in ballot || !this.isPlayerConnected(p.id));
+  }
+
+  /** Resolve the yes/no vote; the tied players leave together only with a majority of the living. */
+  processEliminateAllVote(): {
+    candidateIds: string[];
+    yesCount: number;
+    noCount: number;
+    eliminated: boolean;
+  } {
+    const candidateIds = this.tieBreakState?.candidateIds ?? [];
+    const ballot = this.tieBreakState?.eliminateAllVotes ?? {};
+    const aliveCount = this.getAlivePlayers().length;
+    const yesCount = Object.values(ballot).filter(Boolean).length;
+    const noCount = Object.values(ballot).length - yesCount;
+    const eliminated = candidateIds.length > 0 && yesCount * 2 > aliveCount;
+
+    if (eliminated) {
+      candidateIds.forEach((id) => {
+        if (this.players.has(id)) {
+          this.markDead(id);
+        }
+      });
+    }
+
+    this.tieBreakState = null;
+    return { candidateIds, yesCount, noCount, eliminated };
+  }
+
+  getTieBreakState(): TieBreakState | null {
+    return this.tieBreakState;
+  }
+
+  endTieBreak(): void {
+    this.tieBreakState = null;
+  }
+
+  checkGameEnd(): GameResult | null {
+    const winner = this.getWinningFaction();
+    if (!winner) return null;
+    return {
+      winner,
+      winnerIds: this.getAllPlayers()
+        .filter((p) => getRoleFaction(p.role) === winner)
+        .map((p) => p.id),
+    };
   }
 
-  checkGameEnd(): "mafia" | "town" | null {
+  private getWinningFaction(): Faction | null {
     const alivePlayers = this.getAlivePlayers();
-    const mafiaCount = alivePlayers.filter((p) => p.role === "mafia").length;
-    const townCount = alivePlayers.filter((p) => p.role !== "mafia").length;
+    // Each living player counts toward its faction with the weight its role declares
+    const strength: Record<Faction, number> = { town: 0, mafia: 0, maniac: 0 };
+    alivePlayers.forEach((p) => {
+      const definition = getRoleDefinition(p.role);
+      strength[definition.faction] += definition.winWeight;
+    });
+    const total = strength.town + strength.mafia + strength.maniac;
 
-    if (mafiaCount === 0) return "town";
-    if (mafiaCount >= townCount) return "mafia";
+    // The maniac wins once it weighs as much as everyone else left (alone, or one-on-one
+    // with a single player); while it lives, nobody else can win
+    if (strength.maniac > 0) {
+      return strength.maniac >= total - strength.maniac ? "maniac" : null;
+    }
+    if (strength.mafia === 0) return "town";
+    if (strength.mafia >= strength.town) return "mafia";
     return null;
   }
 
@@ -446,10 +1484,52 @@ export class Room {
     return this.chatMessages;
   }
 
+  /** Length of a phase in seconds: the host's formula for the living table if set, else the fixed setting. */
+  getPhaseDuration(key: ScaledDuration): number {
+    const formula = this.settings.durationScaling?.[key];
+    if (!formula) return this.settings[key];
+    return Math.min(formula.base + formula.perPlayer * this.getAlivePlayers().length, formula.max);
+  }
+
   private updateEndTime(durationSeconds: number): void {
     this.endTime = Date.now() + durationSeconds * 1000;
   }
 
+  /** Freeze the phase timer; nothing moves on until the host resumes. */
+  pause(): TranslationKey | null {
+    if (this.phase === "lobby" || this.isGameOver()) return "errorInvalidPhase";
+    if (this.pausedRemaining !== null) return "errorAlreadyPaused";
+    this.pausedRemaining = Math.max((this.endTime ?? Date.now()) - Date.now(), 0);
+    return null;
+  }
+
+  /** Restart the phase timer with the time that was left when it was paused. */
+  resume(): TranslationKey | null {
+    if (this.pausedRemaining === null) return "errorNotPaused";
+    this.endTime = Date.now() + this.pausedRemaining;
+    this.pausedRemaining = null;
+    return null;
+  }
+
+  /** Give the current phase (or turn) more time, paused or not. */
+  extendPhase(seconds: number): TranslationKey | null {
+    if (this.phase === "lobby" || this.isGameOver()) return "errorInvalidPhase";
+    if (this.pausedRemaining !== null) {
+      this.pausedRemaining += seconds * 1000;
+    } else {
+      this.endTime = (this.endTime ?? Date.now()) + seconds * 1000;
+    }
+    return null;
+  }
+
+  isPaused(): boolean {
+    return this.pausedRemaining !== null;
+  }
+
+  getPausedRemaining(): number | null {
+    return this.pausedRemaining;
+  }
+
   // Getters
   getId(): string {
     return this.id;
@@ -502,11 +1582,11 @@ export class Room {
     return this.lastVotingResult;
   }
 
-  setLastNightResult(result: { killedId: string | null; savedId: string | null }): void {
+  setLastNightResult(result: NightResult): void {
     this.lastNightResult = result;
   }
 
-  getLastNightResult(): { killedId: string | null; savedId: string | null } | null {
+  getLastNightResult(): NightResult | null {
     return this.lastNightResult;
   }
 
@@ -514,6 +1594,16 @@ export class Room {
     return this.isEnded;
   }
 
+  /** A winner has been found; nothing may change the game while its final result is on screen. */
+  setEndPending(): void {
+    this.endPending = true;
+  }
+
+  /** True once the game has ended or is about to (winner found, end announcement delayed). */
+  isGameOver(): boolean {
+    return this.isEnded || this.endPending;
+  }
+
   toGameRoom(): GameRoom {
     // Convert Maps to objects for JSON serialization
     const votes: Record<string, string> = {};
@@ -521,9 +1611,14 @@ export class Room {
       votes[voterId] = targetId;
     });
     
-    const nightActions: Record<string, string> = {};
-    this.nightActions.forEach((targetId, playerId) => {
-      nightActions[playerId] = targetId;
+    const nightActions: Record<string, PlayerNightActions> = {};
+    this.nightActions.forEach((playerActions, playerId) => {
+      nightActions[playerId] = playerActions;
+    });
+
+    const privateNightResults: Record<string, PrivateNightResult[]> = {};
+    this.privateNightResults.forEach((results, playerId) => {
+      privateNightResults[playerId] = results;
     });
 
     return {
@@ -539,16 +1634,30 @@ export class Room {
       createdAt: this.createdAt,
       settings: this.settings,
       discussionState: this.discussionState,
+      lastWordsState: this.lastWordsState,
+      tieBreakState: this.tieBreakState,
+      nominations: this.nominations,
+      lastOpenerId: this.lastOpenerId,
+      lastVictimId: this.lastVictimId,
+      lastNightResult: this.lastNightResult,
+      nightStep: this.nightStep,
+      pausedRemaining: this.pausedRemaining,
+      extraTimeUsed: Object.fromEntries(this.extraTimeUsed),
       chatMessages: this.chatMessages,
       votes,
       nightActions,
+      privateNightResults,
       isEnded: this.isEnded,
+      seed: this.seed,
+      rngState: this.rngState,
+      botRngState: this.botRngState,
+      actionLog: this.actionLog,
     };
   }
   
   // Restore room from full state
   static fromGameRoom(data: GameRoom): Room {
-    const room = new Room(data.hostId, "", data.settings);
+    const room = new Room(data.hostId, "", data.settings, data.seed);
     room.id = data.id;
     room.code = data.code;
     room.hostId = data.hostId;
@@ -558,8 +1667,20 @@ export class Room {
     room.createdAt = data.createdAt;
     room.settings = data.settings;
     room.discussionState = data.discussionState || null;
+    room.lastWordsState = data.lastWordsState || null;
+    room.tieBreakState = data.tieBreakState || null;
+    room.nominations = data.nominations || [];
+    room.lastOpenerId = data.lastOpenerId || null;
+    room.lastVictimId = data.lastVictimId || null;
+    room.lastNightResult = data.lastNightResult || null;
+    room.nightStep = data.nightStep || null;
+    room.pausedRemaining = data.pausedRemaining ?? null;
+    room.extraTimeUsed = new Map(Object.entries(data.extraTimeUsed || {}));
     room.chatMessages = data.chatMessages || [];
     room.isEnded = data.isEnded || false;
+    room.rngState = data.rngState ?? room.seed;
+    room.botRngState = data.botRngState ?? botSeed(room.seed);
+    room.actionLog = data.actionLog || [];
     
     // Restore players
     data.players.forEach((player) => {
@@ -575,8 +1696,15 @@ export class Room {
     
     // Restore night actions
     if (data.nightActions) {
-      Object.entries(data.nightActions).forEach(([playerId, targetId]) => {
-        room.nightActions.set(playerId, targetId);
+      Object.entries(data.nightActions).forEach(([playerId, playerActions]) => {
+        room.nightActions.set(playerId, { ...playerActions });
+      });
+    }
+
+    // Restore private night results
+    if (data.privateNightResults) {
+      Object.entries(data.privateNightResults).forEach(([playerId, results]) => {
+        room.privateNightResults.set(playerId, results);
       });
     }
     
@@ -0,0 +1,133 @@
+import { Faction, GameSettings, NightActionType, NightStep, Role } from "../types/game.js";
+
+// Lobby switches that deal a single seat of a role
+type RoleToggle = "hasManiac" | "hasDoctor" | "hasSheriff" | "hasBodyguard" | "hasCourtesan";
+
+/**
+ * Everything the room engine needs to know about a role. To add a house role, add it to
+ * the Role type and describe it here; the night, win and visibility rules read this table.
+ * Factions are fixed: a new one also needs its own win rule in Room.getWinningFaction.
+ */
+export interface RoleDefinition {
+  faction: Faction;
+  // Night actions in the order offered to the player (the first is the default). Lower
+  // priority resolves first, so it can cancel or redirect actions that resolve later;
+  // step is when the role is awake to make the action during a sequential night.
+  nightActions: Array<{ kind: NightActionType; priority: number; step: NightStep }>;
+  teamKill: boolean; // its "kill" is a vote on the faction's shared kill, not a kill of its own
+  leadsTeamKill: boolean; // has the final word on the shared kill under the "don-decides" policy
+  knowsTeam: boolean; // sees the roles of its faction and shares its night chat
+  foundByDonCheck: boolean; // a Don check on this player comes back positive
+  winWeight: number; // how much a living player counts toward its faction's numbers
+  enabledBy?: RoleToggle; // dealt to one player when this lobby setting is on
+}
+
+const PRIORITY = {
+  block: 10,
+  kill: 20,
+  guard: 30,
+  heal: 40,
+  check: 50,
+  "don-check": 60,
+} as const satisfies Record<NightActionType, number>;
+
+// Wake-up order of a sequential night: the classic mafia, Don, doctor, sheriff, with the
+// optional roles slotted in where their actions resolve
+export const NIGHT_STEP_ORDER: NightStep[] = ["courtesan", "mafia", "maniac", "don", "bodyguard", "doctor", "sheriff"];
+
+const NO_ACTION: Omit<RoleDefinition, "faction"> = {
+  nightActions: [],
+  teamKill: false,
+  leadsTeamKill: false,
+  knowsTeam: false,
+  foundByDonCheck: false,
+  winWeight: 1,
+};
+
+export const ROLE_REGISTRY: Record<Role, RoleDefinition> = {
+  mafia: {
+    ...NO_ACTION,
+    faction: "mafia",
+    nightActions: [{ kind: "kill", priority: PRIORITY.kill, step: "mafia" }],
+    teamKill: true,
+    knowsTeam: true,
+  },
+  don: {
+    ...NO_ACTION,
+    faction: "mafia",
+    nightActions: [
+      { kind: "kill", priority: PRIORITY.kill, step: "mafia" },
+      { kind: "don-check", priority: PRIORITY["don-check"], step: "don" },
+    ],
+    teamKill: true,
+    leadsTeamKill: true,
+    knowsTeam: true,
+  },
+  maniac: {
+    ...NO_ACTION,
+    faction: "maniac",
+    nightActions: [{ kind: "kill", priority: PRIORITY.kill, step: "maniac" }],
+    enabledBy: "hasManiac",
+  },
+  doctor: {
+    ...NO_ACTION,
+    faction: "town",
+    nightActions: [{ kind: "heal", priority: PRIORITY.heal, step: "doctor" }],
+    enabledBy: "hasDoctor",
+  },
+  sheriff: {
+    ...NO_ACTION,
+    faction: "town",
+    nightActions: [{ kind: "check", priority: PRIORITY.check, step: "sheriff" }],
+    foundByDonCheck: true,
+    enabledBy: "hasSheriff",
+  },
+  bodyguard: {
+    ...NO_ACTION,
+    faction: "town",
+    nightActions: [{ kind: "guard", priority: PRIORITY.guard, step: "bodyguard" }],
+    enabledBy: "hasBodyguard",
+  },
+  courtesan: {
+    ...NO_ACTION,
+    faction: "town",
+    nightActions: [{ kind: "block", priority: PRIORITY.block, step: "courtesan" }],
+    enabledBy: "hasCourtesan",
+  },
+  citizen: { ...NO_ACTION, faction: "town" },
+};
+
+/** Definition of a role; players without a role yet are treated as citizens. */
+export function getRoleDefinition(role: Role | undefined): RoleDefinition {
+  return ROLE_REGISTRY[role ?? "citizen"];
+}
+
+/** Faction a role plays for. */
+export function getRoleFaction(role: Role | undefined): Faction {
+  return getRoleDefinition(role).faction;
+}
+
+/** True when both roles belong to a faction whose members know each other (the mafia). */
+export function areTeammates(a: Role | undefined, b: Role | undefined): boolean {
+  const roleA = getRoleDefinition(a);
+  return !!a && !!b && roleA.knowsTeam && getRoleDefinition(b).knowsTeam && roleA.faction === getRoleFaction(b);
+}
+
+/** Night action kinds in resolution order, taken from the priorities the roles declare. */
+export function getNightActionOrder(): NightActionType[] {
+  const priorities = new Map<NightActionType, number>();
+  Object.values(ROLE_REGISTRY).forEach((definition) => {
+    definition.nightActions.forEach(({ kind, priority }) => {
+      priorities.set(kind, Math.min(priorities.get(kind) ?? priority, priority));
+    });
+  });
+  return [...priorities.entries()].sort((a, b) => a[1] - b[1]).map(([kind]) => kind);
+}
+
+/** Single-seat roles the lobby settings switch on, in dealing order. */
+export function getEnabledSpecialRoles(settings: GameSettings): Role[] {
+  return (Object.keys(ROLE_REGISTRY) as Role[]).filter((role) => {
+    const toggle = ROLE_REGISTRY[role].enabledBy;
+    return toggle !== undefined && settings[toggle];
+  });
+}
@@ -2,6 +2,7 @@ import { Router, Request, Response } from "express";
 import { Server } from "socket.io";
 import { RoomManager } from "../services/RoomManager.js";
 import { RedisService } from "../services/RedisService.js";
+import { getRoleFaction } from "../models/roles.js";
 
 const STALE_ROOM_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes without activity
 
@@ -156,6 +157,7 @@ function createAdminRouter(
       round: room.getRound(),
       players: room.getAllPlayers().map((p) => ({
         ...p,
+        fouls: p.fouls || 0,
         isConnected: !!room.getSocketId(p.id),
       })),
       createdAt: room.getCreatedAt(),
@@ -163,6 +165,8 @@ function createAdminRouter(
       isStale,
       discussionState: room.getDiscussionState(),
       chatMessages: room.getChatMessages(),
+      seed: room.getSeed(),
+      actionLog: room.getActionLog(),
     };
   }
 
@@ -278,6 +282,10 @@ function createAdminRouter(
       room.setIsEnded(true);
       io.to(code).emit("game:ended", {
         winner: "town",
+        winnerIds: room
+          .getAllPlayers()
+          .filter((p) => getRoleFaction(p.role) === "town")
+          .map((p) => p.id),
         players: room.getAllPlayers(),
       });
       roomManager.removeRoom(code);
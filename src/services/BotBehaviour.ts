@@ -0,0 +1,104 @@
+import { Room } from "../models/Room.js";
+import { areTeammates, getRoleFaction } from "../models/roles.js";
+import { BotBehaviourName, NightActionType, Player } from "../types/game.js";
+
+/** Decides what a server-side bot does on its turns. GameTimer asks it whenever a bot has to act. */
+export interface BotBehaviour {
+  /** Target for the night action, or null to skip it. */
+  chooseNightTarget(room: Room, bot: Player, action: NightActionType): string | null;
+  /** Player to nominate during its speech, picked from those it may nominate, or null for nobody. */
+  chooseNomination(room: Room, bot: Player, candidateIds: string[]): string | null;
+  /** Player to vote against, picked from the players that may be voted against right now. */
+  chooseVote(room: Room, bot: Player, candidateIds: string[]): string | null;
+  /** Yes/no on eliminating every player still tied after the revote. */
+  chooseEliminateAll(room: Room, bot: Player, candidateIds: string[]): boolean;
+}
+
+/** Living players the bot may legally target with the action tonight. */
+function getNightTargets(room: Room, bot: Player, action: NightActionType): string[] {
+  return room.getNightActionPrompts(bot.id).find((prompt) => prompt.action === action)?.targetIds ?? [];
+}
+
+function pickOrNull(room: Room, ids: string[]): string | null {
+  return ids.length > 0 ? room.botRandomPick(ids) : null;
+}
+
+// Plays by coin flip: any legal target, any candidate except itself
+const randomBehaviour: BotBehaviour = {
+  chooseNightTarget(room, bot, action) {
+    return pickOrNull(room, getNightTargets(room, bot, action));
+  },
+
+  chooseNomination(room, bot, candidateIds) {
+    return pickOrNull(room, candidateIds.filter((id) => id !== bot.id));
+  },
+
+  chooseVote(room, bot, candidateIds) {
+    const others = candidateIds.filter((id) => id !== bot.id);
+    return pickOrNull(room, others.length > 0 ? others : candidateIds);
+  },
+
+  chooseEliminateAll(room) {
+    return room.botRandomPick([true, false]);
+  },
+};
+
+// Plays like a cautious beginner: keeps to its own team and uses what its night checks revealed
+const heuristicBehaviour: BotBehaviour = {
+  chooseNightTarget(room, bot, action) {
+    const targets = getNightTargets(room, bot, action);
+    const checkedIds = room.getPrivateNightResults(bot.id).flatMap((r) => ("targetId" in r ? [r.targetId] : []));
+
+    switch (action) {
+      case "kill":
+      case "don-check": {
+        // Mafia never shoot or check their own; the Don checks each player only once
+        const outsiders = targets.filter(
+          (id) => id !== bot.id && !areTeammates(bot.role, room.getPlayer(id)?.role)
+        );
+        const unchecked = action === "don-check" ? outsiders.filter((id) => !checkedIds.includes(id)) : outsiders;
+        return pickOrNull(room, unchecked);
+      }
+      case "check":
+        return pickOrNull(room, targets.filter((id) => id !== bot.id && !checkedIds.includes(id)));
+      case "heal":
+        // Protect itself while it may, otherwise anyone
+        return targets.includes(bot.id) ? bot.id : pickOrNull(room, targets);
+      default:
+        return pickOrNull(room, targets.filter((id) => id !== bot.id));
+    }
+  },
+
+  chooseNomination(room, bot, candidateIds) {
+    // Puts up whoever it would vote against
+    return heuristicBehaviour.chooseVote(room, bot, candidateIds);
+  },
+
+  chooseVote(room, bot, candidateIds) {
+    const others = candidateIds.filter((id) => id !== bot.id);
+    if (getRoleFaction(bot.role) === "mafia") {
+      const townCandidates = others.filter((id) => !areTeammates(bot.role, room.getPlayer(id)?.role));
+      return pickOrNull(room, townCandidates.length > 0 ? townCandidates : others);
+    }
+    // The sheriff votes out a mafia member it has found
+    const foundMafia = room
+      .getPrivateNightResults(bot.id)
+      .flatMap((r) => (r.type === "sheriff-check" && getRoleFaction(r.role) === "mafia" ? [r.targetId] : []))
+      .filter((id) => others.includes(id));
+    return pickOrNull(room, foundMafia.length > 0 ? foundMafia : others);
+  },
+
+  chooseEliminateAll(room, bot, candidateIds) {
+    // Never vote to remove itself; mafia spare tied teammates
+    if (candidateIds.includes(bot.id)) return false;
+    if (getRoleFaction(bot.role) === "mafia") {
+      return !candidateIds.some((id) => areTeammates(bot.role, room.getPlayer(id)?.role));
+    }
+    return true;
+  },
+};
+
+export const BOT_BEHAVIOURS: Record<BotBehaviourName, BotBehaviour> = {
+  random: randomBehaviour,
+  heuristic: heuristicBehaviour,
+};
@@ -1,17 +1,22 @@
 import { v4 as uuidv4 } from "uuid";
 import { Room } from "../models/Room.js";
+import { getRoleDefinition } from "../models/roles.js";
 import { Server } from "socket.io";
 import { ChatMessage, ClientToServerEvents, ServerToClientEvents } from "../types/socket.js";
 import { RedisService } from "./RedisService.js";
-import { t } from "../i18n/index.js";
+import { GameResult, NightActionType, RemovalReason } from "../types/game.js";
+import { t, type TranslationKey } from "../i18n/index.js";
+import { BOT_BEHAVIOURS } from "./BotBehaviour.js";
 
 export class GameTimer {
   private timers: Map<string, NodeJS.Timeout>; // roomCode -> timer
+  private countdowns: Map<string, NodeJS.Timeout>; // roomCode -> lobby auto-start countdown
   private io: Server<ClientToServerEvents, ServerToClientEvents>;
   private redisService: RedisService | null;
 
   constructor(io: Server<ClientToServerEvents, ServerToClientEvents>, redisService?: RedisService) {
     this.timers = new Map();
+    this.countdowns = new Map();
     this.io = io;
     this.redisService = redisService || null;
   }
@@ -23,13 +28,91 @@ export class GameTimer {
     }
   }
 
+  /**
+   * Deal roles and open the first day. Public for the host's game:start handler and the
+   * lobby auto-start; throws if the room is short of players and returns the error key if
+   * the role setup does not fit the table.
+   */
+  async startGame(room: Room): Promise<TranslationKey | null> {
+    const setupError = room.startGame();
+    if (setupError) return setupError;
+    this.cancelAutoStart(room.getCode());
+
+    // Send roles to each player with connection status
+    room.getAllPlayers().forEach((p) => {
+      const socketId = room.getSocketId(p.id);
+      if (socketId) {
+        this.io.to(socketId).emit("game:role-assigned", p.role!);
+        this.io.to(socketId).emit("game:started", { players: room.getPlayersView(p.id) });
+      }
+    });
+
+    // Game starts with discussion phase, emit discussion:started
+    const discussionState = room.getDiscussionState();
+    if (discussionState) {
+      this.io.to(room.getCode()).emit("discussion:started", discussionState);
+    }
+
+    this.emitPhaseChanged(room);
+    this.startTimer(room);
+
+    // Keep the room alive for 24 hours during the game
+    await this.saveRoomState(room);
+    return null;
+  }
+
+  /**
+   * Start or cancel the lobby auto-start countdown. Call after anything that changes
+   * who is in the lobby, who is ready, or the room settings.
+   */
+  updateAutoStart(room: Room): void {
+    const roomCode = room.getCode();
+    if (!room.canAutoStart()) {
+      if (this.cancelAutoStart(roomCode)) {
+        this.io.to(roomCode).emit("room:auto-start-cancelled");
+      }
+      return;
+    }
+    if (this.countdowns.has(roomCode)) return;
+
+    const countdownMs = room.getSettings().autoStartCountdown * 1000;
+    const countdown = setTimeout(() => {
+      this.countdowns.delete(roomCode);
+      if (!room.canAutoStart()) return;
+      this.startGame(room)
+        .then((setupError) => {
+          if (setupError) console.error("Error auto-starting game:", setupError);
+        })
+        .catch((err) => {
+          console.error("Error auto-starting game:", err);
+        });
+    }, countdownMs);
+    this.countdowns.set(roomCode, countdown);
+    this.io.to(roomCode).emit("room:auto-start", { startTime: Date.now() + countdownMs });
+  }
+
+  /** Returns true if a countdown was running. */
+  private cancelAutoStart(roomCode: string): boolean {
+    const countdown = this.countdowns.get(roomCode);
+    if (!countdown) return false;
+    clearTimeout(countdown);
+    this.countdowns.delete(roomCode);
+    return true;
+  }
+
   startTimer(room: Room): void {
     this.stopTimer(room.getCode());
 
     const timer = setInterval(() => {
+      // A paused game keeps its timer: the phase never ends and bots wait, but AFK removal
+      // still runs so a host who vanished mid-pause is replaced and the new host can resume
       const endTime = room.getEndTime();
-      if (!endTime || Date.now() >= endTime) {
+      if (!room.isPaused() && (!endTime || Date.now() >= endTime)) {
         this.handlePhaseEnd(room);
+      } else {
+        this.handleTick(room).catch((err) => {
+          console.error("Error handling timer tick:", err);
+        });
       }
     }, 1000);
 
@@ -45,15 +128,309 @@ export class GameTimer {
     }
   }
 
+  private async handleTick(room: Room): Promise<void> {
+    const afkRemovals = room.getAfkRemovals(Date.now());
+    if (afkRemovals.length > 0) {
+      await this.removeFromPlay(room, afkRemovals);
+      return;
+    }
+    if (!room.isPaused() && room.getAliveBots().length > 0) {
+      await this.playBotTurns(room);
+    }
+  }
+
+  /**
+   * Take players out of play the way a vote elimination does: announce each one,
+   * hand over the host role if needed, then check for game end. A removed current
+   * speaker or voter loses the rest of their turn.
+   */
+  private async removeFromPlay(
+    room: Room,
+    removals: Array<{ playerId: string; reason: RemovalReason }>
+  ): Promise<void> {
+    const currentSpeakerId = room.getDiscussionState()?.currentSpeakerId;
+    removals.forEach(({ playerId, reason }) => {
+      const newHostId = room.removeFromPlay(playerId, reason);
+      const messageKey = reason === "fouls" ? "foulRemoved" : "playerLeftAfk";
+      this.emitSystemMessage(room, messageKey, [room.getPlayer(playerId)?.name]);
+      this.emitPlayerEliminated(room, playerId);
+      if (newHostId) {
+        this.io.to(room.getCode()).emit("room:host-changed", newHostId);
+      }
+    });
+    const removedCurrentSpeaker = removals.some(({ playerId }) => playerId === currentSpeakerId);
+    await this.afterRemoval(room, removedCurrentSpeaker);
+  }
+
+  private async afterRemoval(room: Room, removedCurrentSpeaker: boolean): Promise<void> {
+    this.emitPlayersUpdated(room);
+    const winner = room.checkGameEnd();
+    if (winner) {
+      await this.endGame(room, winner);
+      return;
+    }
+    await this.saveRoomState(room);
+
+    if (removedCurrentSpeaker && (room.getPhase() === "discussion" || room.getPhase() === "voting")) {
+      this.handlePhaseEnd(room);
+    }
+  }
+
+  /**
+   * A player dropped mid-game: if it was their turn to speak, vote or give last words,
+   * move on at once and count the turn as missed; if the yes/no vote only lacked their
+   * answer, resolve it. Public for the disconnect handler.
+   */
+  skipDisconnectedTurn(room: Room, playerId: string): void {
+    const discussionState = room.getDiscussionState();
+    const isCurrentTurn =
+      room.getPhase() === "last-words"
+        ? room.getLastWordsState()?.speakerId === playerId
+        : (room.getPhase() === "discussion" || room.getPhase() === "voting") &&
+          !!discussionState?.isIndividualPhase &&
+          discussionState.currentSpeakerId === playerId;
+    if (isCurrentTurn) {
+      room.recordMissedTurn(playerId);
+      this.handlePhaseEnd(room);
+      return;
+    }
+
+    // The yes/no vote was only waiting for this player: the disconnected abstain
+    const awaitingEliminateAll = room.getTieBreakState()?.stage === "eliminate-all" && !room.isPaused();
+    if (awaitingEliminateAll && !room.isGameOver() && room.hasEveryoneVotedEliminateAll()) {
+      this.stopTimer(room.getCode());
+      this.processEliminateAllVote(room).catch((err) => {
+        console.error("Error processing eliminate-all vote:", err);
+      });
+    }
+  }
+
+  /**
+   * Let bots take whatever turn is theirs. Runs on every timer tick, so a bot acts about
+   * a second after its turn starts and goes through the same flow as a socket player.
+   */
+  private async playBotTurns(room: Room): Promise<void> {
+    const phase = room.getPhase();
+    const discussionState = room.getDiscussionState();
+    const tieBreakState = room.getTieBreakState();
+    const bots = room.getAliveBots();
+    const currentBot = bots.find((bot) => bot.id === discussionState?.currentSpeakerId);
+
+    if (phase === "night") {
+      const step = room.getNightStep();
+      for (const bot of bots) {
+        for (const action of room.getNightStepActions(bot.id)) {
+          if (room.hasNightAction(bot.id, action)) continue;
+          const targetId = BOT_BEHAVIOURS[bot.bot!].chooseNightTarget(room, bot, action);
+          if (!targetId || room.getNightActionError(bot.id, targetId, action)) continue;
+          await this.handleNightAction(room, bot.id, targetId, action);
+          // The last actor of a step wakes the next role; its bots act from the next tick
+          if (room.getPhase() !== "night" || room.getNightStep() !== step) return;
+        }
+      }
+      return;
+    }
+
+    if (phase === "last-words") {
+      // Bots have nothing to say
+      if (room.getPlayer(room.getLastWordsState()?.speakerId ?? "")?.bot) {
+        this.handlePhaseEnd(room);
+      }
+      return;
+    }
+
+    if (phase === "discussion" && currentBot && discussionState?.isIndividualPhase) {
+      // With nominations on, a bot puts someone up before yielding, or the day never gets a ballot
+      if (room.getSettings().nominationsEnabled) {
+        const candidateIds = room
+          .getAlivePlayers()
+          .map((p) => p.id)
+          .filter((id) => !room.validateAction(currentBot.id, { type: "nominate", targetId: id }));
+        const nomineeId = BOT_BEHAVIOURS[currentBot.bot!].chooseNomination(room, currentBot, candidateIds);
+        if (nomineeId && candidateIds.includes(nomineeId)) {
+          room.nominate(currentBot.id, nomineeId);
+          this.io.to(room.getCode()).emit("discussion:nominations-updated", { nominations: room.getNominations() });
+        }
+      }
+      if (!room.passSpeech(currentBot.id)) {
+        await this.endSpeech(room);
+      }
+      return;
+    }
+
+    if (phase !== "voting") return;
+
+    if (tieBreakState?.stage === "eliminate-all") {
+      for (const bot of bots) {
+        if (bot.id in tieBreakState.eliminateAllVotes) continue;
+        const eliminate = BOT_BEHAVIOURS[bot.bot!].chooseEliminateAll(room, bot, tieBreakState.candidateIds);
+        room.castEliminateAllVote(bot.id, eliminate);
+        await this.handleEliminateAllVoteCast(room, bot.id, eliminate);
+        // The last answer resolves the vote
+        if (room.getTieBreakState()?.stage !== "eliminate-all") return;
+      }
+      return;
+    }
+
+    if (!currentBot) return;
+    if (tieBreakState?.stage === "defence") {
+      // Bots rest their defence straight away
+      this.handlePhaseEnd(room);
+      return;
+    }
+    if (discussionState?.isIndividualPhase && !room.hasPlayerVoted(currentBot.id)) {
+      const candidateIds = room.getVoteCandidates() ?? room.getAlivePlayers().map((p) => p.id);
+      const targetId = BOT_BEHAVIOURS[currentBot.bot!].chooseVote(room, currentBot, candidateIds);
+      // Bots go through the same rules check as socket players
+      if (targetId && !room.validateAction(currentBot.id, { type: "vote", targetId })) {
+        room.vote(currentBot.id, targetId);
+        await this.handleVoteCast(room, currentBot.id, targetId);
+      }
+    }
+  }
+
+  /** Show every mafia member how the family's night votes stand. */
+  emitMafiaVotes(room: Room, actorId: string, targetId: string): void {
+    const voteCounts = room.getMafiaVoteCounts();
+    room
+      .getAllPlayers()
+      .filter((p) => getRoleDefinition(p.role).teamKill)
+      .forEach((mafiaPlayer) => {
+        const socketId = room.getSocketId(mafiaPlayer.id);
+        if (socketId) {
+          this.io.to(socketId).emit("action:night-action-received", { actorId, targetId, voteCounts });
+        }
+      });
+  }
+
+  /**
+   * Record an accepted night action and show the mafia where their votes stand. During a
+   * sequential night the next role wakes as soon as everyone awake has acted.
+   */
+  async handleNightAction(room: Room, playerId: string, targetId: string, action: NightActionType): Promise<void> {
+    room.setNightAction(playerId, targetId, action);
+    if (action === "kill" && getRoleDefinition(room.getPlayer(playerId)?.role).teamKill) {
+      this.emitMafiaVotes(room, playerId, targetId);
+    }
+
+    if (room.isNightStepComplete()) {
+      this.stopTimer(room.getCode());
+      await this.handleNightStepEnd(room);
+      return;
+    }
+
+    await this.saveRoomState(room);
+  }
+
+  /**
+   * Announce an accepted vote and move on to the next voter, or count the votes once the
+   * last voter is done. Public so socket players and bots share the same vote flow.
+   */
+  async handleVoteCast(room: Room, voterId: string, targetId: string): Promise<void> {
+    this.io.to(room.getCode()).emit("action:vote-received", { voterId, targetId });
+
+    const voter = room.getPlayer(voterId);
+    const target = room.getPlayer(targetId);
+    if (voter && target) {
+      const alivePlayers = room.getAlivePlayers();
+      const voterIndex = alivePlayers.findIndex((p) => p.id === voterId) + 1;
+      const targetIndex = alivePlayers.findIndex((p) => p.id === targetId) + 1;
+      this.emitSystemMessage(room, "votedAgainstFull", [voter.name, voterIndex, target.name, targetIndex]);
+    }
+
+    // In individual voting the next voter's turn starts right after this vote
+    const discussionState = room.getDiscussionState();
+    if (discussionState?.isIndividualPhase && discussionState.currentSpeakerId === voterId) {
+      const newState = room.nextVoter() ? room.getDiscussionState() : null;
+      if (!newState?.currentSpeakerId) {
+        // Last player voted — stop timer immediately so we don't wait for remaining time
+        this.stopTimer(room.getCode());
+        await this.processVoting(room);
+        return;
+      }
+      this.io.to(room.getCode()).emit("discussion:speaker-changed", {
+        currentSpeakerId: newState.currentSpeakerId,
+        currentSpeakerIndex: newState.currentSpeakerIndex,
+        endTime: room.getEndTime()!,
+      });
+      // Restart timer for next voter
+      this.startTimer(room);
+    }
+
+    await this.saveRoomState(room);
+  }
+
+  /** Announce a yes/no answer; resolve the vote as soon as everyone has answered. */
+  async handleEliminateAllVoteCast(room: Room, voterId: string, eliminate: boolean): Promise<void> {
+    this.io.to(room.getCode()).emit("voting:eliminate-all-vote-received", { voterId, eliminate });
+
+    // Everyone has answered — don't wait for the timer
+    if (room.hasEveryoneVotedEliminateAll()) {
+      this.stopTimer(room.getCode());
+      await this.processEliminateAllVote(room);
+      return;
+    }
+
+    await this.saveRoomState(room);
+  }
+
+  /**
+   * Give a player a foul, announce it and apply the penalty. Public so the host's foul
+   * handler and automatic triggers (e.g. chatting out of turn) can use it.
+   */
+  async giveFoul(room: Room, playerId: string): Promise<void> {
+    if (room.getFoulError(playerId)) return;
+    const player = room.getPlayer(playerId)!;
+    const { fouls, losesSpeech, removed } = room.addFoul(playerId);
+    this.emitSystemMessage(room, "foulGiven", [player.name, fouls]);
+    if (losesSpeech) {
+      this.emitSystemMessage(room, "foulLosesSpeech", [player.name]);
+    }
+
+    if (removed) {
+      await this.removeFromPlay(room, [{ playerId, reason: "fouls" }]);
+      return;
+    }
+    this.emitPlayersUpdated(room);
+    await this.saveRoomState(room);
+  }
+
+  /** End the current speech, turn or phase as if its time had run out. Public for the host's skip command. */
+  skipPhase(room: Room): void {
+    this.handlePhaseEnd(room);
+  }
+
+  /**
+   * Tell everyone the phase clock changed (paused, resumed or extended), optionally with
+   * a system message. Public for the host's pause/resume/extend handlers.
+   */
+  async announceTimerChange(room: Room, messageKey?: TranslationKey): Promise<void> {
+    if (messageKey) {
+      this.emitSystemMessage(room, messageKey);
+    }
+    this.io.to(room.getCode()).emit("game:timer-updated", {
+      endTime: room.getEndTime(),
+      pausedRemaining: room.getPausedRemaining(),
+    });
+    await this.saveRoomState(room);
+  }
+
   private handlePhaseEnd(room: Room): void {
+    // No phase transition fires while the game is paused or already decided
+    if (room.isPaused() || room.isGameOver()) return;
     this.stopTimer(room.getCode());
 
     switch (room.getPhase()) {
       case "night":
-        this.handleNightEnd(room).catch((err) => {
+        this.handleNightStepEnd(room).catch((err) => {
           console.error("Error handling night end:", err);
         });
         break;
+      case "day":
+        this.handleMorningEnd(room).catch((err) => {
+          console.error("Error handling morning end:", err);
+        });
+        break;
       case "discussion":
         this.handleDiscussionEnd(room).catch((err) => {
           console.error("Error handling discussion end:", err);
@@ -64,48 +441,149 @@ export class GameTimer {
           console.error("Error handling voting end:", err);
         });
         break;
+      case "last-words":
+        this.handleLastWordsEnd(room).catch((err) => {
+          console.error("Error handling last words end:", err);
+        });
+        break;
     }
   }
 
+  private emitPhaseChanged(room: Room): void {
+    this.io.to(room.getCode()).emit("game:phase-changed", {
+      phase: room.getPhase(),
+      round: room.getRound(),
+      endTime: room.getEndTime()!,
+      lastWordsPlayerId: room.getLastWordsState()?.speakerId,
+      nightStep: room.getNightStep() ?? undefined,
+    });
+  }
+
+  /** Tell every player with a night action what they may do now and which targets are eligible. */
+  private promptNightActions(room: Room): void {
+    room.getNightActorIds().forEach((playerId) => {
+      const socketId = room.getSocketId(playerId);
+      if (socketId) {
+        this.io.to(socketId).emit("night:your-turn", {
+          step: room.getNightStep() ?? undefined,
+          actions: room.getNightActionPrompts(playerId),
+          endTime: room.getEndTime()!,
+        });
+      }
+    });
+  }
+
+  /** Send each player the player list filtered to the roles they may see. */
+  emitPlayersUpdated(room: Room): void {
+    room.getAllPlayers().forEach((player) => {
+      const socketId = room.getSocketId(player.id);
+      if (socketId) {
+        this.io.to(socketId).emit("game:players-updated", { players: room.getPlayersView(player.id) });
+      }
+    });
+  }
+
+  /** Announce an elimination, revealing the role only as far as each recipient may see it. */
+  private emitPlayerEliminated(room: Room, playerId: string): void {
+    room.getAllPlayers().forEach((player) => {
+      const socketId = room.getSocketId(player.id);
+      if (socketId) {
+        this.io.to(socketId).emit("game:player-eliminated", {
+          playerId,
+          ...room.getVisibleRole(player.id, playerId),
+        });
+      }
+    });
+  }
+
+  /** Store a system message in uz (client translates by key) and send it to the room. */
+  private emitSystemMessage(room: Room, key: TranslationKey, params: unknown[] = []): void {
+    const text = t("uz", key, ...params);
+    const message: ChatMessage = {
+      id: uuidv4(),
+      senderId: "system",
+      senderName: t("uz", "system"),
+      text,
+      timestamp: Date.now(),
+      isSystem: true,
+      translationKey: key,
+      translationParams: params,
+    };
+    room.addChatMessage("system", "Система", text, true);
+    this.io.to(room.getCode()).emit("chat:message", message);
+  }
+
+  /** Move a sequential night on to the next role, or resolve the night after the last one. */
+  private async handleNightStepEnd(room: Room): Promise<void> {
+    if (room.nextNightStep()) {
+      this.emitPhaseChanged(room);
+      this.promptNightActions(room);
+      await this.saveRoomState(room);
+      this.startTimer(room);
+      return;
+    }
+
+    await this.handleNightEnd(room);
+  }
+
   private async handleNightEnd(room: Room): Promise<void> {
-    const result = room.processNightPhase();
-    this.io.to(room.getCode()).emit("action:night-result", result);
+    const { killedIds, privateResults } = room.processNightPhase();
+    this.io.to(room.getCode()).emit("action:night-result", { killedIds });
+
+    // Sheriff checks, doctor confirmations etc. go only to the acting player
+    privateResults.forEach(({ playerId, result }) => {
+      const socketId = room.getSocketId(playerId);
+      if (socketId) {
+        this.io.to(socketId).emit("night:private-result", result);
+      }
+    });
 
     // Check for game end
     const winner = room.checkGameEnd();
     if (winner) {
-      // Store last night result before ending game
-      room.setLastNightResult({
-        killedId: result.killedId,
-        savedId: result.savedId,
-      });
       // Emit last night result before game end
-      this.io.to(room.getCode()).emit("game:last-night-result", {
-        killedId: result.killedId,
-        savedId: result.savedId,
-      });
+      this.io.to(room.getCode()).emit("game:last-night-result", { killedIds });
       // Wait a bit before ending game to show night result modal
-      setTimeout(async () => {
-        await this.endGame(room, winner);
-      }, 5000);
+      this.endGameAfterResult(room, winner);
       return;
     }
 
-    // Send system message about morning (use uz as default for storage, client translates)
-    const morningText = t("uz", "morningFalls");
-    const morningMessage: ChatMessage = {
-      id: uuidv4(),
-      senderId: "system",
-      senderName: t("uz", "system"),
-      text: morningText,
-      timestamp: Date.now(),
-      isSystem: true,
-      translationKey: "morningFalls",
-      translationParams: [],
-    };
-    room.addChatMessage("system", "Система", morningText, true);
-    this.io.to(room.getCode()).emit("chat:message", morningMessage);
+    await this.startMorning(room, killedIds);
+  }
+
+  /** Morning phase: announce the night's victims (or that nobody died) before the day opens. */
+  private async startMorning(room: Room, killedIds: string[]): Promise<void> {
+    room.startMorning();
+
+    // Send system messages about morning (use uz as default for storage, client translates)
+    this.emitSystemMessage(room, "morningFalls");
+    if (killedIds.length === 0) {
+      this.emitSystemMessage(room, "nightNobodyKilled");
+    }
+    killedIds.forEach((id) => {
+      const victim = room.getPlayer(id);
+      if (victim) {
+        this.emitSystemMessage(room, "nightPlayerKilled", [victim.name]);
+      }
+    });
+
+    this.emitPlayersUpdated(room);
+    this.emitPhaseChanged(room);
+    await this.saveRoomState(room);
+    this.startTimer(room);
+  }
 
+  private async handleMorningEnd(room: Room): Promise<void> {
+    const killedIds = room.getLastNightResult()?.killedIds ?? [];
+    if (killedIds.length > 0 && room.getSettings().nightVictimLastWords) {
+      await this.startLastWords(room, killedIds, "discussion");
+      return;
+    }
+
+    await this.startDiscussion(room);
+  }
+
+  private async startDiscussion(room: Room): Promise<void> {
     // Start discussion
     room.startDiscussion();
     const discussionState = room.getDiscussionState();
@@ -114,16 +592,9 @@ export class GameTimer {
     }
 
     // Send updated players with connection status
-    const playersWithStatus = room.getAllPlayersWithConnectionStatus();
-    this.io.to(room.getCode()).emit("game:players-updated", {
-      players: playersWithStatus,
-    });
+    this.emitPlayersUpdated(room);
 
-    this.io.to(room.getCode()).emit("game:phase-changed", {
-      phase: room.getPhase(),
-      round: room.getRound(),
-      endTime: room.getEndTime()!,
-    });
+    this.emitPhaseChanged(room);
 
     // Save room state to Redis
     await this.saveRoomState(room);
@@ -131,6 +602,56 @@ export class GameTimer {
     this.startTimer(room);
   }
 
+  private async startLastWords(
+    room: Room,
+    playerIds: string[],
+    nextPhase: "night" | "discussion"
+  ): Promise<void> {
+    // Nobody who was eliminated is still connected: move straight on
+    if (!room.startLastWords(playerIds, nextPhase)) {
+      if (nextPhase === "discussion") {
+        await this.startDiscussion(room);
+      } else {
+        await this.startNight(room);
+      }
+      return;
+    }
+    this.announceLastWords(room);
+    this.emitPhaseChanged(room);
+    await this.saveRoomState(room);
+    this.startTimer(room);
+  }
+
+  private announceLastWords(room: Room): void {
+    const speaker = room.getPlayer(room.getLastWordsState()?.speakerId ?? "");
+    if (speaker) {
+      this.emitSystemMessage(room, "lastWords", [speaker.name]);
+    }
+  }
+
+  private async handleLastWordsEnd(room: Room): Promise<void> {
+    if (room.nextLastWords()) {
+      this.announceLastWords(room);
+      this.emitPhaseChanged(room);
+      await this.saveRoomState(room);
+      this.startTimer(room);
+      return;
+    }
+
+    const nextPhase = room.endLastWords();
+    if (nextPhase === "discussion") {
+      await this.startDiscussion(room);
+    } else {
+      await this.startNight(room);
+    }
+  }
+
+  /** End the current speech early. Public so the pass handler can yield the floor. */
+  async endSpeech(room: Room): Promise<void> {
+    this.stopTimer(room.getCode());
+    await this.handleDiscussionEnd(room);
+  }
+
   private async handleDiscussionEnd(room: Room): Promise<void> {
     const discussionState = room.getDiscussionState();
     if (!discussionState) return;
@@ -176,47 +697,80 @@ export class GameTimer {
     } else {
       // General discussion ended, move to voting
       this.io.to(room.getCode()).emit("discussion:ended");
-      room.endDiscussion();
-      // Emit discussion:started for voting phase
-      const discussionState = room.getDiscussionState();
-      if (discussionState && discussionState.currentSpeakerId) {
-        // Emit discussion:started with first voter
-        this.io.to(room.getCode()).emit("discussion:started", discussionState);
-        // Emit speaker changed for first voter
-        this.io.to(room.getCode()).emit("discussion:speaker-changed", {
-          currentSpeakerId: discussionState.currentSpeakerId,
-          currentSpeakerIndex: discussionState.currentSpeakerIndex,
-          endTime: room.getEndTime()!,
-        });
-        // Send updated players with connection status
-        const playersWithStatus = room.getAllPlayersWithConnectionStatus();
-        this.io.to(room.getCode()).emit("game:players-updated", {
-          players: playersWithStatus,
+      await this.startVoting(room);
+    }
+  }
+
+  private async startVoting(room: Room): Promise<void> {
+    room.endDiscussion();
+
+    // With nominations, the ballot needs at least two nominees
+    if (room.getSettings().nominationsEnabled) {
+      const nominees = room.getNominees();
+      if (nominees.length === 0 || (nominees.length === 1 && room.getSettings().singleNomineeRule === "skip")) {
+        room.skipVoting();
+        this.io.to(room.getCode()).emit("voting:skipped", {
+          reason: nominees.length === 0 ? "no-nominees" : "single-nominee",
         });
+        await this.endDay(room, []);
+        return;
       }
-      // Emit phase change
-      this.io.to(room.getCode()).emit("game:phase-changed", {
-        phase: room.getPhase(),
-        round: room.getRound(),
+      if (nominees.length === 1) {
+        await this.handleVotingResult(room, room.eliminateSingleNominee());
+        return;
+      }
+    }
+
+    // Emit discussion:started for voting phase
+    const discussionState = room.getDiscussionState();
+    if (discussionState && discussionState.currentSpeakerId) {
+      // Emit discussion:started with first voter
+      this.io.to(room.getCode()).emit("discussion:started", discussionState);
+      // Emit speaker changed for first voter
+      this.io.to(room.getCode()).emit("discussion:speaker-changed", {
+        currentSpeakerId: discussionState.currentSpeakerId,
+        currentSpeakerIndex: discussionState.currentSpeakerIndex,
         endTime: room.getEndTime()!,
       });
-      // Save room state to Redis
-      await this.saveRoomState(room);
-      // Start timer for first voter (don't call handleVotingEnd yet)
-      this.startTimer(room);
+      // Send updated players with connection status
+      this.emitPlayersUpdated(room);
     }
+    // Emit phase change
+    this.emitPhaseChanged(room);
+    // Save room state to Redis
+    await this.saveRoomState(room);
+    // Start timer for first voter (don't call handleVotingEnd yet)
+    this.startTimer(room);
   }
 
   private async handleVotingEnd(room: Room): Promise<void> {
+    // Tie-break sub-phases share the voting phase
+    const tieBreakStage = room.getTieBreakState()?.stage;
+    if (tieBreakStage === "defence") {
+      await this.handleDefenceEnd(room);
+      return;
+    }
+    if (tieBreakStage === "eliminate-all") {
+      await this.processEliminateAllVote(room);
+      return;
+    }
+
     const discussionState = room.getDiscussionState();
     if (!discussionState) return;
 
     if (discussionState.isIndividualPhase) {
       // Auto-vote for current voter if they didn't vote
       const currentVoterId = discussionState.currentSpeakerId;
-      if (currentVoterId && !room.hasPlayerVoted(currentVoterId)) {
+      const candidates = room.getVoteCandidates();
+      if (
+        currentVoterId &&
+        room.getPlayer(currentVoterId)?.isAlive &&
+        room.isPlayerConnected(currentVoterId) &&
+        !room.hasPlayerVoted(currentVoterId) &&
+        (!candidates || candidates.includes(currentVoterId))
+      ) {
         // Player didn't vote, auto-vote against themselves
-        room.vote(currentVoterId, currentVoterId);
+        room.autoVote(currentVoterId);
         
         // Notify all players about auto-vote
         const voter = room.getPlayer(currentVoterId);
@@ -272,20 +826,34 @@ export class GameTimer {
     }
   }
 
-  private async processVoting(room: Room): Promise<void> {
-    const result = room.processVoting();
+  /** Resolve the day vote. Public so the vote handler can finish early when the last player votes. */
+  async processVoting(room: Room): Promise<void> {
+    await this.handleVotingResult(room, room.processVoting());
+  }
+
+  private async handleVotingResult(room: Room, result: ReturnType<Room["processVoting"]>): Promise<void> {
     this.io.to(room.getCode()).emit("action:vote-result", {
       eliminatedId: result.eliminatedId,
       votes: result.votes,
       isTie: result.isTie,
     });
 
+    // A tie goes to defence speeches and a revote; a tied revote goes to the yes/no vote
+    if (result.isTie && result.tiedIds.length > 1) {
+      const stage = room.getTieBreakState()?.stage;
+      if (!stage) {
+        await this.startDefence(room, result.tiedIds);
+        return;
+      }
+      if (stage === "revote" && result.tiedIds.length < room.getAlivePlayers().length) {
+        await this.startEliminateAllVote(room, result.tiedIds);
+        return;
+      }
+    }
+    room.endTieBreak();
+
     if (result.eliminatedId) {
-      const eliminatedPlayer = room.getPlayer(result.eliminatedId);
-      this.io.to(room.getCode()).emit("game:player-eliminated", {
-        playerId: result.eliminatedId,
-        role: eliminatedPlayer?.role,
-      });
+      this.emitPlayerEliminated(room, result.eliminatedId);
     }
 
     // Check for game end
@@ -304,50 +872,138 @@ export class GameTimer {
         votes: result.votes,
       });
       // Wait a bit before ending game to show voting result modal
-      setTimeout(async () => {
-        await this.endGame(room, winner);
-      }, 5000);
+      this.endGameAfterResult(room, winner);
+      return;
+    }
+
+    await this.endDay(room, result.eliminatedId ? [result.eliminatedId] : []);
+  }
+
+  private async endDay(room: Room, eliminatedIds: string[]): Promise<void> {
+    // The voted-out players speak before the city falls asleep
+    if (eliminatedIds.length > 0) {
+      await this.startLastWords(room, eliminatedIds, "night");
+      return;
+    }
+
+    await this.startNight(room);
+  }
+
+  private async startDefence(room: Room, candidateIds: string[]): Promise<void> {
+    room.startDefence(candidateIds);
+    // None of the tied candidates can speak: go straight to the revote
+    if (!room.getDiscussionState()?.currentSpeakerId) {
+      await this.handleDefenceEnd(room);
+      return;
+    }
+    this.emitDefenceSpeaker(room);
+    await this.saveRoomState(room);
+    this.startTimer(room);
+  }
+
+  private emitDefenceSpeaker(room: Room): void {
+    const discussionState = room.getDiscussionState();
+    const tieBreakState = room.getTieBreakState();
+    if (!discussionState?.currentSpeakerId || !tieBreakState) return;
+    this.io.to(room.getCode()).emit("voting:defence-speaker", {
+      playerId: discussionState.currentSpeakerId,
+      candidateIds: tieBreakState.candidateIds,
+      endTime: room.getEndTime()!,
+    });
+  }
+
+  private async handleDefenceEnd(room: Room): Promise<void> {
+    if (room.nextDefenceSpeaker()) {
+      this.emitDefenceSpeaker(room);
+      await this.saveRoomState(room);
+      this.startTimer(room);
       return;
     }
 
+    // Everyone has defended, revote among the tied candidates
+    room.startRevote();
+    const tieBreakState = room.getTieBreakState();
+    const discussionState = room.getDiscussionState();
+    this.io.to(room.getCode()).emit("voting:revote-started", {
+      candidateIds: tieBreakState?.candidateIds ?? [],
+      endTime: room.getEndTime()!,
+    });
+    if (discussionState?.currentSpeakerId) {
+      this.io.to(room.getCode()).emit("discussion:started", discussionState);
+      this.io.to(room.getCode()).emit("discussion:speaker-changed", {
+        currentSpeakerId: discussionState.currentSpeakerId,
+        currentSpeakerIndex: discussionState.currentSpeakerIndex,
+        endTime: room.getEndTime()!,
+      });
+    }
+    await this.saveRoomState(room);
+    this.startTimer(room);
+  }
+
+  private async startEliminateAllVote(room: Room, candidateIds: string[]): Promise<void> {
+    room.startEliminateAllVote(candidateIds);
+    this.io.to(room.getCode()).emit("voting:eliminate-all-started", {
+      candidateIds,
+      endTime: room.getEndTime()!,
+    });
+    await this.saveRoomState(room);
+    this.startTimer(room);
+  }
+
+  /** Resolve the yes/no vote. Public so the vote handler can finish early once everyone has answered. */
+  async processEliminateAllVote(room: Room): Promise<void> {
+    const result = room.processEliminateAllVote();
+    this.io.to(room.getCode()).emit("voting:eliminate-all-result", result);
+
+    const eliminatedIds = result.eliminated ? result.candidateIds : [];
+    eliminatedIds.forEach((playerId) => this.emitPlayerEliminated(room, playerId));
+
+    // Check for game end
+    const winner = room.checkGameEnd();
+    if (winner) {
+      // Wait a bit before ending game to show voting result modal
+      this.endGameAfterResult(room, winner);
+      return;
+    }
+
+    await this.endDay(room, eliminatedIds);
+  }
+
+  private async startNight(room: Room): Promise<void> {
     // Send system message about night starting (use uz as default for storage, client translates)
-    const nightText = t("uz", "nightMafiaWakes");
-    const nightMessage: ChatMessage = {
-      id: uuidv4(),
-      senderId: "system",
-      senderName: t("uz", "system"),
-      text: nightText,
-      timestamp: Date.now(),
-      isSystem: true,
-      translationKey: "nightMafiaWakes",
-      translationParams: [],
-    };
-    room.addChatMessage("system", "Система", nightText, true);
-    this.io.to(room.getCode()).emit("chat:message", nightMessage);
+    this.emitSystemMessage(room, "nightMafiaWakes");
     
     // Move to next night
     room.startNextNight();
     // Send updated players with connection status
-    const playersWithStatus = room.getAllPlayersWithConnectionStatus();
-    this.io.to(room.getCode()).emit("game:players-updated", {
-      players: playersWithStatus,
-    });
-    this.io.to(room.getCode()).emit("game:phase-changed", {
-      phase: room.getPhase(),
-      round: room.getRound(),
-      endTime: room.getEndTime()!,
-    });
+    this.emitPlayersUpdated(room);
+    this.emitPhaseChanged(room);
+    this.promptNightActions(room);
     // Save room state to Redis
     await this.saveRoomState(room);
     this.startTimer(room);
   }
 
-  async endGame(room: Room, winner: "mafia" | "town"): Promise<void> {
+  /**
+   * End the game once players have had a few seconds to see the deciding result. The room
+   * counts as over straight away, so skip, pause, fouls and turns cannot touch it meanwhile.
+   */
+  private endGameAfterResult(room: Room, result: GameResult): void {
+    room.setEndPending();
+    this.stopTimer(room.getCode());
+    setTimeout(async () => {
+      await this.endGame(room, result);
+    }, 5000);
+  }
+
+  async endGame(room: Room, result: GameResult): Promise<void> {
+    if (room.getIsEnded()) return;
     this.stopTimer(room.getCode());
     // Mark room as ended
     room.setIsEnded(true);
     this.io.to(room.getCode()).emit("game:ended", {
-      winner,
+      winner: result.winner,
+      winnerIds: result.winnerIds,
       players: room.getAllPlayers(),
     });
     // Save final game state to Redis
@@ -356,5 +1012,6 @@ export class GameTimer {
 
   cleanup(roomCode: string): void {
     this.stopTimer(roomCode);
+    this.cancelAutoStart(roomCode);
   }
 }
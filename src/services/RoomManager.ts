@@ -239,7 +239,8 @@ export class RoomManager {
     return room;
   }
 
-  async leaveRoom(playerId: string): Promise<Room | null> {
+  /** Remove a player from their room; deleted is true when nobody but bots was left in it. */
+  async leaveRoom(playerId: string): Promise<{ room: Room; deleted: boolean } | null> {
     const room = this.getRoomByPlayerId(playerId);
     if (!room) return null;
 
@@ -247,8 +248,9 @@ export class RoomManager {
     this.playerToRoom.delete(playerId);
     await this.redis.removePlayerRoom(playerId);
 
-    // Remove room if empty
-    if (room.getAllPlayers().length === 0) {
+    // Remove room if empty (bots alone do not keep a room open)
+    const deleted = room.getAllPlayers().every((p) => p.bot);
+    if (deleted) {
       this.rooms.delete(room.getCode());
       await this.redis.deleteRoom(room.getCode());
     } else {
@@ -256,7 +258,7 @@ export class RoomManager {
       await this.redis.saveRoom(room, room.getPhase() !== "lobby" ? 86400 : 300);
     }
 
-    return room;
+    return { room, deleted };
   }
 
   async deleteRoom(roomCode: string): Promise<void> {
@@ -1,4 +1,29 @@
-export type Role = "mafia" | "citizen" | "doctor" | "sheriff";
+export type Role = "mafia" | "don" | "maniac" | "citizen" | "doctor" | "sheriff" | "bodyguard" | "courtesan";
+
+// Side a role plays for; every faction has its own win condition
+export type Faction = "town" | "mafia" | "maniac";
+
+// Kind of night action; a role may have more than one (the Don both kills and checks)
+export type NightActionType = "kill" | "heal" | "check" | "don-check" | "guard" | "block";
+
+// Who is awake during a step of the sequential night
+export type NightStep = "courtesan" | "mafia" | "maniac" | "don" | "bodyguard" | "doctor" | "sheriff";
+
+// Player input checked by Room.validateAction before the game accepts it
+export type PlayerAction =
+  | { type: "vote"; targetId: string }
+  | { type: "night-action"; targetId: string; action: NightActionType | undefined }
+  | { type: "nominate"; targetId: string }
+  | { type: "eliminate-all-vote" };
+
+// A night action the player may make right now and the targets the server will accept for it
+export interface NightActionPrompt {
+  action: NightActionType;
+  targetIds: string[];
+}
+
+// Night actions submitted by one player this night: action -> targetId
+export type PlayerNightActions = Partial<Record<NightActionType, string>>;
 
 export type GamePhase =
   | "lobby"
@@ -6,15 +31,26 @@ export type GamePhase =
   | "discussion"
   | "day"
   | "voting"
+  | "last-words"
   | "ended";
 
+// Built-in ways a server-side bot can play (see services/BotBehaviour.ts)
+export type BotBehaviourName = "random" | "heuristic";
+
 export interface Player {
   id: string;
   name: string;
   avatar?: string;
   role?: Role;
+  faction?: Faction; // sent instead of role when only the faction may be revealed
   isAlive: boolean;
   isHost: boolean;
+  bot?: BotBehaviourName; // set for server-side bots: the behaviour that plays for them
+  isReady?: boolean; // lobby ready-check; bots are always ready
+  fouls?: number; // fouls received this game
+  missesNextSpeech?: boolean; // foul penalty: their next speech turn is skipped
+  missedTurns?: number; // consecutive turns skipped or timed out while away
+  disconnectedAt?: number; // set while a player's socket is gone mid-game
 }
 
 export interface GameRoom {
@@ -30,6 +66,14 @@ export interface GameRoom {
   createdAt: number; // unix timestamp in milliseconds
   settings: GameSettings;
   discussionState?: DiscussionState | null;
+  lastWordsState?: LastWordsState | null;
+  tieBreakState?: TieBreakState | null;
+  nominations?: Nomination[]; // today's nominations, in order
+  lastOpenerId?: string | null; // opened the most recent day's speeches
+  lastVictimId?: string | null; // most recently killed or eliminated player
+  lastNightResult?: NightResult | null; // announced in the morning, replayed on reconnect
+  nightStep?: NightStep | null; // role awake right now during a sequential night
+  extraTimeUsed?: Record<string, number>; // playerId -> extra-time tokens spent this game
   chatMessages?: Array<{
     id: string;
     senderId: string;
@@ -39,16 +83,60 @@ export interface GameRoom {
     isSystem?: boolean;
   }>;
   votes?: Record<string, string>; // voterId -> targetId
-  nightActions?: Record<string, string>; // playerId -> targetId
+  nightActions?: Record<string, PlayerNightActions>; // playerId -> action -> targetId
+  privateNightResults?: Record<string, PrivateNightResult[]>; // playerId -> own results, oldest first
   isEnded?: boolean; // true if game has ended
+  pausedRemaining?: number | null; // ms left in the phase while the host has the game paused
+  seed?: number; // seed of the room's PRNG; with actionLog it replays the game exactly
+  rngState?: number; // current PRNG state, so a restored room continues the same sequence
+  botRngState?: number; // state of the bots' own PRNG stream, kept apart from the game's
+  actionLog?: GameActionLogEntry[];
 }
 
+// Player input that changed the game, in the order the server accepted it
+export interface GameActionLogEntry {
+  round: number;
+  phase: GamePhase;
+  playerId: string;
+  type: "night-action" | "vote" | "nominate" | "eliminate-all-vote" | "pass" | "extra-time" | "foul" | "removed"; // foul, removed: playerId is the penalised player
+  targetId?: string;
+  action?: NightActionType; // night-action only
+  eliminate?: boolean; // eliminate-all-vote only
+  reason?: RemovalReason; // removed only
+  timestamp: number;
+}
+
+// Why a player was taken out of play without a vote or a night kill
+export type RemovalReason = "fouls" | "missed-turns" | "disconnected";
+
 export interface DiscussionState {
   currentSpeakerId: string | null;
   speakerOrder: string[];
   currentSpeakerIndex: number;
   isIndividualPhase: boolean; // true = individual turns, false = general discussion
   speakingTimePerPlayer: number;
+  extended?: boolean; // current speaker has already used an extra-time token this turn
+}
+
+export interface LastWordsState {
+  speakerId: string; // eliminated player currently giving last words
+  queue: string[]; // eliminated players still waiting for their turn
+  nextPhase: "night" | "discussion"; // phase that starts when everyone has spoken
+}
+
+// A suspect put up for the day vote by the player whose speech it was
+export interface Nomination {
+  nominatorId: string;
+  nomineeId: string;
+}
+
+// Resolution of a tied day vote: defence speeches, a revote among the tied, then a yes/no vote
+export type TieBreakStage = "defence" | "revote" | "eliminate-all";
+
+export interface TieBreakState {
+  stage: TieBreakStage;
+  candidateIds: string[]; // tied players
+  eliminateAllVotes: Record<string, boolean>; // voterId -> eliminate all tied (eliminate-all stage only)
 }
 
 export interface GameSettings {
@@ -58,19 +146,119 @@ export interface GameSettings {
   votingDuration: number;
   individualDiscussionDuration: number;
   individualVotingDuration: number;
-  mafiaCount: number;
+  extraTimeTokens: number; // extra-time tokens each player gets per game
+  extraTimeDuration: number; // seconds one token adds to a speech
+  foulsToSkipSpeech: number; // reaching this many fouls costs the player their next speech
+  foulsToRemove: number; // reaching this many fouls removes the player from the game
+  outOfTurnChatFoul: boolean; // chatting during someone else's speech earns an automatic foul
+  afkMissedTurns: number; // consecutive missed turns that remove a player from play (0 = never)
+  disconnectGracePeriod: number; // seconds a disconnected player may stay away before removal (0 = forever)
+  autoStart: boolean; // start on its own once everyone in the lobby is ready
+  autoStartCountdown: number; // seconds between everyone being ready and the auto-start
+  durationScaling: Partial<Record<ScaledDuration, DurationFormula>>; // replaces the fixed durations it lists
+  lastWordsDuration: number;
+  defenceDuration: number; // defence speech of each tied candidate
+  nominationsEnabled: boolean; // day vote is limited to players nominated during speeches
+  singleNomineeRule: "skip" | "eliminate"; // what happens when only one player is nominated
+  speakerRotation: "clockwise" | "random" | "after-victim"; // who opens each day's speeches
+  nightKillPolicy: NightKillPolicy; // how split mafia votes are settled at night
+  sequentialNight: boolean; // roles wake one after another instead of all acting at once
+  nightStepDuration: number; // seconds each role is awake during a sequential night
+  roleReveal: "role" | "faction" | "none"; // what other players learn about someone who dies
+  nightVictimLastWords: boolean; // night victims also get last words, not only voted-out players
+  mafiaCount: number; // includes the Don when hasDon is set
+  hasDon: boolean;
+  hasManiac: boolean;
   hasDoctor: boolean;
   hasSheriff: boolean;
+  hasBodyguard: boolean;
+  hasCourtesan: boolean;
+  doctorSelfHealOnce: boolean; // doctor may heal themselves at most once per game
+  doctorNoRepeatHeal: boolean; // doctor may not heal the same player two nights in a row
   minPlayers: number;
   maxPlayers: number;
 }
 
+// Phase durations that can grow with the table instead of staying fixed
+export type ScaledDuration =
+  | "nightDuration"
+  | "discussionDuration"
+  | "individualDiscussionDuration"
+  | "votingDuration"
+  | "individualVotingDuration";
+
+// Seconds = base + perPlayer for each living player, never more than max
+export interface DurationFormula {
+  base: number;
+  perPlayer: number;
+  max: number;
+}
+
+// Subset of GameSettings the host can change from the lobby (room:update-settings)
+export type GameSettingsUpdate = Partial<
+  Pick<
+    GameSettings,
+    | "mafiaCount"
+    | "hasDon"
+    | "hasManiac"
+    | "hasDoctor"
+    | "hasSheriff"
+    | "hasBodyguard"
+    | "hasCourtesan"
+    | "doctorSelfHealOnce"
+    | "doctorNoRepeatHeal"
+    | "nightVictimLastWords"
+    | "extraTimeTokens"
+    | "foulsToSkipSpeech"
+    | "foulsToRemove"
+    | "outOfTurnChatFoul"
+    | "afkMissedTurns"
+    | "disconnectGracePeriod"
+    | "autoStart"
+    | "autoStartCountdown"
+    | "durationScaling"
+    | "nominationsEnabled"
+    | "singleNomineeRule"
+    | "speakerRotation"
+    | "nightKillPolicy"
+    | "sequentialNight"
+    | "nightStepDuration"
+    | "roleReveal"
+  >
+>;
+
 export interface NightAction {
   mafiaTarget?: string;
   doctorTarget?: string;
   sheriffTarget?: string;
 }
 
+// Public outcome of a night, announced to the whole room
+export interface NightResult {
+  killedIds: string[]; // mafia and maniac victims; empty if nobody died
+}
+
+// plurality: a clear leader dies, a tie misses; random-tie: a tie is settled at random;
+// unanimous: every acting mafia member must pick the same target; don-decides: the Don's pick is final
+export type NightKillPolicy = "plurality" | "random-tie" | "unanimous" | "don-decides";
+
+// Why the mafia's shot did not land on anyone
+export type MafiaMissReason = "no-target" | "tie" | "not-unanimous" | "don-silent";
+
+// Outcome of a night action that only the acting player may see
+export type PrivateNightResult =
+  | { type: "sheriff-check"; round: number; targetId: string; role: Role }
+  | { type: "doctor-heal"; round: number; targetId: string; saved: boolean }
+  | { type: "don-check"; round: number; targetId: string; isSheriff: boolean }
+  | { type: "bodyguard-guard"; round: number; targetId: string; intercepted: boolean }
+  | { type: "blocked"; round: number } // the courtesan cancelled this player's actions
+  | { type: "mafia-miss"; round: number; reason: MafiaMissReason }; // sent to every living mafia member
+
+export interface GameResult {
+  winner: Faction;
+  winnerIds: string[]; // all players of the winning faction, alive or dead
+}
+
 export interface VoteResult {
   eliminatedId: string | null;
   votes: Record<string, number>;
@@ -1,4 +1,20 @@
-import { Player, GamePhase, Role, DiscussionState, GameSettings } from "./game.js";
+import {
+  Player,
+  GamePhase,
+  Role,
+  Faction,
+  DiscussionState,
+  GameSettings,
+  GameSettingsUpdate,
+  BotBehaviourName,
+  GameResult,
+  NightActionType,
+  NightActionPrompt,
+  NightStep,
+  Nomination,
+  NightResult,
+  PrivateNightResult,
+} from "./game.js";
 
 // Socket event types
 export interface ServerToClientEvents {
@@ -12,6 +28,9 @@ export interface ServerToClientEvents {
   "room:active-found": (data: { roomCode: string; playerName: string }) => void; // Active room found for player
   "room:no-active": () => void; // No active room found
   "room:check-result": (data: { hasActiveRoom: boolean; roomCode?: string; playerName?: string }) => void; // Result of room check on entry
+  "room:auto-start": (data: { startTime: number }) => void; // Everyone is ready; the game starts at startTime
+  "room:auto-start-cancelled": () => void;
+  "room:settings-updated": (settings: GameSettings) => void;
 
   // Game state events
   "game:started": (data: { players: Player[] }) => void;
@@ -19,13 +38,19 @@ export interface ServerToClientEvents {
     phase: GamePhase;
     round: number;
     endTime: number; // unix timestamp in milliseconds
+    lastWordsPlayerId?: string; // set during the last-words phase
+    nightStep?: NightStep; // role awake right now during a sequential night
   }) => void;
+  "game:timer-updated": (data: {
+    endTime: number | null; // unix timestamp in milliseconds
+    pausedRemaining: number | null; // ms left in the phase while paused, null while running
+  }) => void; // Sent on pause, resume and extend
   "game:role-assigned": (role: Role) => void;
-  "game:player-eliminated": (data: { playerId: string; role?: Role }) => void;
+  "game:player-eliminated": (data: { playerId: string; role?: Role; faction?: Faction }) => void; // role/faction only as the reveal setting allows
   "game:players-updated": (data: { players: Player[] }) => void;
-  "game:ended": (data: { winner: "mafia" | "town"; players: Player[] }) => void;
+  "game:ended": (data: GameResult & { players: Player[] }) => void;
   "game:last-voting-result": (data: { eliminatedId: string | null; isTie: boolean; votes: Record<string, number> }) => void;
-  "game:last-night-result": (data: { killedId: string | null; savedId: string | null }) => void;
+  "game:last-night-result": (data: NightResult) => void;
 
   // Discussion events
   "discussion:started": (data: DiscussionState) => void;
@@ -36,6 +61,22 @@ export interface ServerToClientEvents {
   }) => void;
   "discussion:individual-ended": () => void;
   "discussion:ended": () => void;
+  "discussion:nominations-updated": (data: { nominations: Nomination[] }) => void;
+
+  // Voting skipped without a ballot (nobody or only one player nominated)
+  "voting:skipped": (data: { reason: "no-nominees" | "single-nominee" }) => void;
+
+  // Tie-break events (tied day vote)
+  "voting:defence-speaker": (data: { playerId: string; candidateIds: string[]; endTime: number }) => void;
+  "voting:revote-started": (data: { candidateIds: string[]; endTime: number }) => void;
+  "voting:eliminate-all-started": (data: { candidateIds: string[]; endTime: number }) => void;
+  "voting:eliminate-all-vote-received": (data: { voterId: string; eliminate: boolean }) => void;
+  "voting:eliminate-all-result": (data: {
+    candidateIds: string[];
+    yesCount: number;
+    noCount: number;
+    eliminated: boolean;
+  }) => void;
 
   // Action events
   "action:vote-received": (data: { voterId: string; targetId: string }) => void;
@@ -44,12 +85,21 @@ export interface ServerToClientEvents {
     votes: Record<string, number>;
     isTie: boolean;
   }) => void;
-  "action:night-result": (data: {
-    killedId: string | null;
-    savedId: string | null;
-    checkedId?: string;
-    checkedRole?: Role;
-  }) => void;
+  "action:night-result": (data: NightResult) => void;
+  "action:night-action-received": (data: {
+    actorId: string; // empty when replaying the tally on reconnect
+    targetId: string;
+    voteCounts: Record<string, number>; // targetId -> mafia kill votes
+  }) => void; // Mafia only
+
+  // Night events (sent only to the acting player's socket)
+  "night:private-result": (result: PrivateNightResult) => void;
+  "night:private-history": (results: PrivateNightResult[]) => void; // Replayed on reconnect
+  "night:your-turn": (data: {
+    step?: NightStep; // set during a sequential night
+    actions: NightActionPrompt[];
+    endTime: number; // unix timestamp in milliseconds
+  }) => void; // The player's role is awake; any other action or target is rejected
 
   // Chat events
   "chat:message": (message: ChatMessage) => void;
@@ -68,13 +118,29 @@ export interface ClientToServerEvents {
   "room:delete": () => void;
   "room:check-active": (playerId: string) => void; // Check if player has active room
   "room:check-on-entry": (playerId: string) => void; // Check if player has active room on app entry
+  "room:update-settings": (settings: GameSettingsUpdate) => void; // Host only, lobby only
+  "room:ready": (isReady: boolean) => void; // Lobby only
+  "room:add-bot": (behaviour?: BotBehaviourName) => void; // Host only, lobby only; defaults to "random"
+  "room:remove-bot": (botId: string) => void; // Host only, lobby only
 
   // Game events
   "game:start": () => void;
+  "game:pause": () => void; // Host only
+  "game:resume": () => void; // Host only
+  "game:skip-phase": () => void; // Host only: end the current speech, turn or phase now
+  "game:extend": (seconds?: number) => void; // Host only: add time to the current phase (default 30s)
 
   // Action events
   "action:vote": (targetId: string) => void;
-  "action:night-action": (targetId: string) => void;
+  "action:nominate": (targetId: string) => void; // Current speaker only, individual discussion
+
+  "game:foul": (targetId: string) => void; // Host only, game in progress
+
+  // Discussion events (current speaker only)
+  "discussion:pass": () => void; // End own speech early
+  "discussion:extra-time": () => void; // Spend an extra-time token to extend own speech
+  "action:night-action": (targetId: string, action?: NightActionType) => void; // action defaults to the role's main one
+  "action:eliminate-all-vote": (eliminate: boolean) => void; // Yes/no on eliminating all tied players
 
   // Chat events
   "chat:send": (text: string) => void;